@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import {
+  getLightningAddress,
+  buildMetadata,
+  lnurlResponse,
+  lnurlError,
+} from "@/lib/lightning-address";
+
+// LUD-16: GET /.well-known/lnurlp/<username> — public, no auth
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  const { username } = await params;
+  const address = await getLightningAddress(username);
+  if (!address) {
+    return lnurlError("Unknown Lightning Address", 404);
+  }
+
+  const { host, origin } = request.nextUrl;
+  return lnurlResponse({
+    tag: "payRequest",
+    callback: `${origin}/api/lnurlp/${address.username}/callback`,
+    minSendable: address.minSendableSats * 1000,
+    maxSendable: address.maxSendableSats * 1000,
+    metadata: buildMetadata(address, host),
+    commentAllowed: address.commentAllowed,
+  });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import { getAuthByTokenId } from "@/lib/auth";
+import {
+  getApproval,
+  lockApprovalDecision,
+  updateApproval,
+  type ApprovalKind,
+} from "@/lib/approvals";
+import { handlePay, handleTransfer } from "@/lib/payments";
+import { handleL402 } from "@/lib/l402";
+import { handleLnurlPay } from "@/lib/lnurl";
+import { handleWithdraw } from "@/lib/withdrawals";
+import { handleSparkInvoicePay } from "@/lib/spark-invoices";
+import { handleBatch } from "@/lib/batch";
+import { logEvent } from "@/lib/log";
+import type { ApiResponse } from "@/lib/types";
+
+const HANDLERS: Record<ApprovalKind, typeof handlePay> = {
+  pay: handlePay,
+  transfer: handleTransfer,
+  l402: handleL402,
+  lnurl: handleLnurlPay,
+  withdraw: handleWithdraw,
+  spark_invoice: handleSparkInvoicePay,
+  batch: handleBatch,
+};
+
+// POST /api/approvals/approve  { id }
+// Runs the queued payment under the original token's budget and limits.
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "BAD_REQUEST");
+    }
+
+    const { id } = body;
+    if (!id || typeof id !== "string") {
+      return errorResponse("id is required", "BAD_REQUEST");
+    }
+
+    const approval = await getApproval(id);
+    if (!approval) {
+      return errorResponse("Approval request not found", "BAD_REQUEST", 404);
+    }
+    if (approval.status !== "awaiting_approval") {
+      return errorResponse(`Approval request is already ${approval.status}`, "BAD_REQUEST", 409);
+    }
+    if (!(await lockApprovalDecision(id))) {
+      return errorResponse("Approval request is already being decided", "BAD_REQUEST", 409);
+    }
+
+    const decision = {
+      decidedAt: new Date().toISOString(),
+      decidedBy: auth.label,
+    };
+
+    // Re-resolve the original token so current limits (and revocation) apply
+    const originalAuth = await getAuthByTokenId(approval.tokenId);
+    if (!originalAuth) {
+      const failed = await updateApproval(id, {
+        ...decision,
+        status: "failed",
+        error: { error: "The token that queued this payment has been revoked", code: "UNAUTHORIZED" },
+      });
+      return successResponse({ approval: failed });
+    }
+
+    await updateApproval(id, { ...decision, status: "executing" });
+    await logEvent({
+      action: "approval_approved",
+      success: true,
+      amountSats: approval.amountSats,
+      approvalId: id,
+    });
+
+    let response: NextResponse;
+    try {
+      response = await HANDLERS[approval.kind](wallet, originalAuth, approval.body, {
+        approvedAmountSats: approval.amountSats,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message || "Unknown wallet error" : "Unknown error";
+      response = errorResponse(message, "WALLET_ERROR", 500);
+    }
+
+    const outcome = (await response.clone().json()) as ApiResponse;
+    const updated = await updateApproval(
+      id,
+      outcome.success
+        ? { status: "completed", result: outcome.data }
+        : { status: "failed", error: { error: outcome.error, code: outcome.code } }
+    );
+
+    return successResponse({ approval: updated });
+  }, { scope: "approvals:manage" });
+}
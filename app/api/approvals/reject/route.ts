@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { getApproval, lockApprovalDecision, updateApproval } from "@/lib/approvals";
+import { logEvent } from "@/lib/log";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+// POST /api/approvals/reject  { id, reason? }
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "approvals:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("approvals:manage") }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id, reason } = body;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+  if (reason !== undefined && typeof reason !== "string") {
+    return jsonError("reason must be a string", "BAD_REQUEST", 400);
+  }
+
+  const approval = await getApproval(id);
+  if (!approval) {
+    return jsonError("Approval request not found", "BAD_REQUEST", 404);
+  }
+  if (approval.status !== "awaiting_approval") {
+    return jsonError(`Approval request is already ${approval.status}`, "BAD_REQUEST", 409);
+  }
+  if (!(await lockApprovalDecision(id))) {
+    return jsonError("Approval request is already being decided", "BAD_REQUEST", 409);
+  }
+
+  const updated = await updateApproval(id, {
+    status: "rejected",
+    decidedAt: new Date().toISOString(),
+    decidedBy: auth.label,
+    reason,
+  });
+
+  await logEvent({
+    action: "approval_rejected",
+    success: true,
+    amountSats: approval.amountSats,
+    approvalId: id,
+    error: reason,
+  });
+
+  return NextResponse.json({ success: true, data: { approval: updated } });
+}
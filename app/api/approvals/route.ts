@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { listApprovals, type ApprovalStatus } from "@/lib/approvals";
+
+const VALID_STATUSES: ApprovalStatus[] = [
+  "awaiting_approval",
+  "executing",
+  "completed",
+  "failed",
+  "rejected",
+  "expired",
+];
+
+// GET /api/approvals?status=awaiting_approval
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "approvals:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("approvals:manage") }, { status: 403 });
+  }
+
+  const status = request.nextUrl.searchParams.get("status");
+  if (status && !VALID_STATUSES.includes(status as ApprovalStatus)) {
+    return NextResponse.json(
+      { success: false, error: `status must be one of: ${VALID_STATUSES.join(", ")}`, code: "BAD_REQUEST" },
+      { status: 400 }
+    );
+  }
+
+  const approvals = await listApprovals((status as ApprovalStatus) || undefined);
+  return NextResponse.json({ success: true, data: { approvals, count: approvals.length } });
+}
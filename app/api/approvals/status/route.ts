@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { getApproval } from "@/lib/approvals";
+
+// GET /api/approvals/status?id=<approvalId>
+// Callable by the token that queued the payment, or by a token with approvals:manage.
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "approvals:read")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("approvals:read") }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "id query parameter is required", code: "BAD_REQUEST" },
+      { status: 400 }
+    );
+  }
+
+  const approval = await getApproval(id);
+  if (!approval || (approval.tokenId !== auth.tokenId && !hasScope(auth, "approvals:manage"))) {
+    return NextResponse.json(
+      { success: false, error: "Approval request not found", code: "BAD_REQUEST" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      approvalId: approval.id,
+      kind: approval.kind,
+      status: approval.status,
+      amountSats: approval.amountSats,
+      createdAt: approval.createdAt,
+      expiresAt: approval.expiresAt,
+      decidedAt: approval.decidedAt,
+      reason: approval.reason,
+      result: approval.result,
+      error: approval.error,
+    },
+  });
+}
@@ -1,20 +1,22 @@
 import { NextRequest } from "next/server";
 import { withWallet, successResponse } from "@/lib/spark";
+import { getSparkTokenBalances } from "@/lib/spark-tokens";
 
 export async function GET(request: NextRequest) {
   return withWallet(request, async (wallet, _auth) => {
-    const { balance, tokenBalances } = await wallet.getBalance();
+    const { balance, tokenBalances } = await getSparkTokenBalances(wallet);
 
-    const tokens: Record<string, string> = {};
-    if (tokenBalances) {
-      for (const [key, value] of tokenBalances) {
-        tokens[key] = value.toString();
-      }
+    // tokenBalances keeps its original identifier -> balance shape for
+    // existing clients; tokens has the metadata
+    const balances: Record<string, string> = {};
+    for (const [identifier, token] of Object.entries(tokenBalances)) {
+      balances[identifier] = token.balance;
     }
 
     return successResponse({
       balance: balance.toString(),
-      tokenBalances: tokens,
+      tokenBalances: balances,
+      tokens: tokenBalances,
     });
-  });
+  }, { scope: "balance:read" });
 }
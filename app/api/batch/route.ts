@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { withWallet } from "@/lib/spark";
+import { handleBatch } from "@/lib/batch";
+
+// POST /api/batch  { items: [{ type, ... }] }
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    const body = await request.json();
+    return handleBatch(wallet, auth, body);
+  }, { idempotent: true });
+}
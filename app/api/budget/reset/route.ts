@@ -1,25 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAuth } from "@/lib/auth";
-import { resetAllDailySpends } from "@/lib/budget";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { resetAllSpends } from "@/lib/budget";
 
 export async function POST(request: NextRequest) {
   const auth = await verifyAuth(request);
-  if (!auth) {
-    return NextResponse.json(
-      { success: false, error: "Invalid or missing authorization token", code: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
-  if (auth.role !== "admin") {
-    return NextResponse.json(
-      { success: false, error: "Admin token required", code: "UNAUTHORIZED" },
-      { status: 403 }
-    );
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "budget:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("budget:manage") }, { status: 403 });
   }
 
-  const count = await resetAllDailySpends();
+  const count = await resetAllSpends();
   return NextResponse.json({
     success: true,
-    data: { resetCount: count, message: `Reset ${count} daily spend counter(s)` },
+    data: { resetCount: count, message: `Reset ${count} spend counter(s)` },
   });
 }
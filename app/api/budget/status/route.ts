@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { getBudgetStatus } from "@/lib/budget";
+
+// Remaining budget for the calling token, per spending window
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "budget:read")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("budget:read") }, { status: 403 });
+  }
+
+  const windows = await getBudgetStatus(auth);
+  return NextResponse.json({
+    success: true,
+    data: { maxTxSats: auth.maxTxSats, windows },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { withCronWallet, successResponse, errorResponse } from "@/lib/spark";
+import { getNwcConfig, syncNwcRelay } from "@/lib/nwc";
+
+// GET /api/cron/nwc  (Authorization: Bearer <CRON_SECRET>)
+// Polls the NWC relay once: answers pending NIP-47 requests and publishes the
+// wallet service info event. Call it every few seconds to a minute.
+export async function GET(request: NextRequest) {
+  return withCronWallet(request, async (wallet) => {
+    const config = getNwcConfig();
+    if (!config) {
+      return errorResponse("Nostr Wallet Connect is not configured", "BAD_REQUEST");
+    }
+    const summary = await syncNwcRelay(wallet, config);
+    return successResponse(summary);
+  });
+}
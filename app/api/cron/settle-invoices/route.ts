@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { withCronWallet, successResponse } from "@/lib/spark";
+import { settlePendingInvoices } from "@/lib/log";
+import { processWebhookDeliveries } from "@/lib/webhooks";
+
+// GET /api/cron/settle-invoices  (Authorization: Bearer <CRON_SECRET>)
+// Settles every pending invoice by payment hash and logs invoice_paid /
+// invoice_expired, independent of API traffic. Call it from any scheduler.
+export async function GET(request: NextRequest) {
+  return withCronWallet(request, async (wallet) => {
+    const summary = await settlePendingInvoices(wallet);
+    await processWebhookDeliveries();
+    return successResponse(summary);
+  });
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { withCron, successResponse } from "@/lib/spark";
+import { processWebhookDeliveries } from "@/lib/webhooks";
+
+// GET /api/cron/webhooks  (Authorization: Bearer <CRON_SECRET>)
+// Sends queued webhook deliveries and due retries, independent of API
+// traffic. Call it every minute or so.
+export async function GET(request: NextRequest) {
+  return withCron(request, async () => {
+    const summary = await processWebhookDeliveries();
+    return successResponse(summary);
+  });
+}
@@ -1,9 +1,37 @@
 import { NextRequest } from "next/server";
-import { withWallet, successResponse } from "@/lib/spark";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import {
+  getOrCreateStaticDepositAddress,
+  trackDepositAddress,
+  trackStaticDepositAddress,
+} from "@/lib/deposits";
 
+const MAX_LABEL_LENGTH = 100;
+
+// GET /api/deposit-address?label=<optional>&type=static
+// Issues a single-use L1 address and remembers it for /api/deposits.
+// type=static returns the wallet's reusable address instead (same on every call).
 export async function GET(request: NextRequest) {
-  return withWallet(request, async (wallet, _auth) => {
+  const { searchParams } = request.nextUrl;
+  const label = searchParams.get("label") ?? undefined;
+  const type = searchParams.get("type") ?? "single_use";
+
+  if (label !== undefined && label.length > MAX_LABEL_LENGTH) {
+    return errorResponse(`label must be at most ${MAX_LABEL_LENGTH} characters`, "BAD_REQUEST");
+  }
+  if (type !== "single_use" && type !== "static") {
+    return errorResponse("type must be single_use or static", "BAD_REQUEST");
+  }
+
+  return withWallet(request, async (wallet, auth) => {
+    if (type === "static") {
+      const address = await getOrCreateStaticDepositAddress(wallet);
+      const tracked = await trackStaticDepositAddress(address, auth, label);
+      return successResponse({ address, type, label: tracked.label });
+    }
+
     const address = await wallet.getSingleUseDepositAddress();
-    return successResponse({ address });
-  });
+    await trackDepositAddress(address, auth, label);
+    return successResponse({ address, type, label });
+  }, { scope: "deposits:read" });
 }
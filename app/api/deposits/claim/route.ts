@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import { claimDeposits, getTrackedDepositAddress } from "@/lib/deposits";
+
+// POST /api/deposits/claim  { address }
+// Claims every confirmed deposit to the address into the Spark balance.
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, _auth) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "BAD_REQUEST");
+    }
+
+    const { address } = body;
+    if (!address || typeof address !== "string") {
+      return errorResponse("address is required", "BAD_REQUEST");
+    }
+
+    const tracked = await getTrackedDepositAddress(address);
+    if (!tracked) {
+      return errorResponse("Deposit address not found", "BAD_REQUEST", 404);
+    }
+    if (tracked.kind === "static") {
+      return errorResponse("Claim static deposits one UTXO at a time with /api/deposits/static/claim", "BAD_REQUEST");
+    }
+
+    const { claimed, errors } = await claimDeposits(wallet, tracked);
+    if (claimed.length === 0 && errors.length === 0) {
+      return errorResponse("No confirmed, unclaimed deposits for this address", "BAD_REQUEST", 409);
+    }
+    return successResponse({
+      address,
+      claimed,
+      errors,
+      totalClaimedSats: claimed.reduce((sum, d) => sum + d.amountSats, 0),
+    });
+  }, { scope: "deposits:claim" });
+}
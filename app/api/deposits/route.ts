@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import { hasScope } from "@/lib/auth";
+import {
+  getDepositAddressStatus,
+  getTrackedDepositAddress,
+  listTrackedDepositAddresses,
+} from "@/lib/deposits";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// GET /api/deposits?address=&limit=
+// Status of issued deposit addresses: unfunded, pending_confirmations,
+// claimable or claimed. Tokens with deposits:claim see every address; others their own.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const address = searchParams.get("address");
+  const limit = Math.min(Number(searchParams.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT);
+
+  return withWallet(request, async (wallet, auth) => {
+    const ownTokenId = hasScope(auth, "deposits:claim") ? undefined : auth.tokenId;
+
+    if (address) {
+      const tracked = await getTrackedDepositAddress(address);
+      if (!tracked || (ownTokenId && tracked.tokenId !== ownTokenId)) {
+        return errorResponse("Deposit address not found", "BAD_REQUEST", 404);
+      }
+      return successResponse(await getDepositAddressStatus(wallet, tracked));
+    }
+
+    const tracked = (await listTrackedDepositAddresses(ownTokenId)).slice(0, limit);
+    const deposits = await Promise.all(tracked.map((d) => getDepositAddressStatus(wallet, d)));
+    return successResponse({ deposits });
+  }, { scope: "deposits:read" });
+}
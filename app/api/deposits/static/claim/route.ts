@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import {
+  claimStaticDepositUtxo,
+  getOrCreateStaticDepositAddress,
+  getStaticDepositClaim,
+  quoteStaticDepositClaim,
+} from "@/lib/deposits";
+
+const TXID_PATTERN = /^[0-9a-f]{64}$/;
+
+// POST /api/deposits/static/claim  { txid, vout?, maxFeeSats?, confirm? }
+// Without confirm, returns the claim quote (creditAmountSats, feeSats).
+// With confirm: true, claims the UTXO into the Spark balance.
+// The fee is only known when ESPLORA_URL is set: the SDK reports what will be
+// credited, not the UTXO amount. Without it, maxFeeSats fails with FEE_UNKNOWN.
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse("Invalid JSON body", "BAD_REQUEST");
+    }
+
+    const { txid, vout = 0, maxFeeSats, confirm } = body;
+    if (typeof txid !== "string" || !TXID_PATTERN.test(txid)) {
+      return errorResponse("txid must be 64 lowercase hex characters", "BAD_REQUEST");
+    }
+    if (typeof vout !== "number" || !Number.isInteger(vout) || vout < 0) {
+      return errorResponse("vout must be a non-negative integer", "BAD_REQUEST");
+    }
+    if (maxFeeSats !== undefined && (typeof maxFeeSats !== "number" || maxFeeSats < 0)) {
+      return errorResponse("maxFeeSats must be a non-negative number", "BAD_REQUEST");
+    }
+
+    const existing = await getStaticDepositClaim(txid, vout);
+    if (existing) {
+      return errorResponse(`This deposit was already claimed at ${existing.claimedAt}`, "BAD_REQUEST", 409, existing);
+    }
+
+    const { quote, amountSats, feeSats } = await quoteStaticDepositClaim(wallet, txid, vout);
+
+    if (confirm !== true) {
+      return successResponse({
+        preview: true,
+        txid,
+        vout,
+        amountSats,
+        creditAmountSats: quote.creditAmountSats,
+        feeSats,
+        message: "Send the same request with confirm: true to claim",
+      });
+    }
+
+    if (maxFeeSats !== undefined) {
+      if (feeSats === undefined) {
+        return errorResponse(
+          "Deposit amount is unknown, so maxFeeSats can't be checked. Set ESPLORA_URL, or claim without maxFeeSats",
+          "FEE_UNKNOWN",
+          409,
+          { creditAmountSats: quote.creditAmountSats }
+        );
+      }
+      if (feeSats > maxFeeSats) {
+        return errorResponse(`Claim fee of ${feeSats} sats exceeds maxFeeSats of ${maxFeeSats}`, "BAD_REQUEST", 400, {
+          feeSats,
+          creditAmountSats: quote.creditAmountSats,
+        });
+      }
+    }
+
+    const address = await getOrCreateStaticDepositAddress(wallet);
+    const result = await claimStaticDepositUtxo(wallet, auth, address, quote);
+    if ("error" in result) {
+      return errorResponse(result.error, "BAD_REQUEST", 409);
+    }
+    return successResponse({ ...result.claim, amountSats, feeSats });
+  }, { scope: "deposits:claim" });
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse } from "@/lib/spark";
+import { getOrCreateStaticDepositAddress, listStaticDepositUtxos } from "@/lib/deposits";
+
+// GET /api/deposits/static
+// Confirmed UTXOs received on the wallet's static deposit address, each with
+// its claim record once claimed.
+export async function GET(request: NextRequest) {
+  return withWallet(request, async (wallet, _auth) => {
+    const address = await getOrCreateStaticDepositAddress(wallet);
+    const utxos = await listStaticDepositUtxos(wallet, address);
+    return successResponse({
+      address,
+      utxos,
+      unclaimed: utxos.filter((utxo) => !utxo.claimed).length,
+    });
+  }, { scope: "deposits:read" });
+}
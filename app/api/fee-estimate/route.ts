@@ -10,10 +10,18 @@ export async function GET(request: NextRequest) {
       return errorResponse("invoice query parameter is required", "BAD_REQUEST");
     }
 
+    // Needed for amountless invoices
+    const amountParam = searchParams.get("amountSats");
+    const amountSats = amountParam !== null ? Number(amountParam) : undefined;
+    if (amountSats !== undefined && (!Number.isInteger(amountSats) || amountSats <= 0)) {
+      return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+    }
+
     const feeEstimateSats = await wallet.getLightningSendFeeEstimate({
       encodedInvoice: invoice,
+      amountSats,
     });
 
     return successResponse({ feeEstimateSats });
-  });
+  }, { scope: "fees:read" });
 }
@@ -9,5 +9,5 @@ export async function GET(request: NextRequest) {
     ]);
 
     return successResponse({ sparkAddress, identityPublicKey });
-  });
+  }, { scope: "balance:read" });
 }
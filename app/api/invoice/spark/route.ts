@@ -1,14 +1,9 @@
 import { NextRequest } from "next/server";
 import { withWallet, successResponse, errorResponse } from "@/lib/spark";
 import { logEvent } from "@/lib/log";
-import { canCreateInvoice } from "@/lib/auth";
 
 export async function POST(request: NextRequest) {
-  return withWallet(request, async (wallet, auth) => {
-    if (!canCreateInvoice(auth.role)) {
-      return errorResponse("This token does not have permission to create invoices", "UNAUTHORIZED", 403);
-    }
-
+  return withWallet(request, async (wallet, _auth) => {
     let body: Record<string, unknown>;
     try {
       body = await request.json();
@@ -62,5 +57,5 @@ export async function POST(request: NextRequest) {
     });
 
     return successResponse({ invoice });
-  });
+  }, { scope: "invoice:create" });
 }
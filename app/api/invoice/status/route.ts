@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import { getInvoiceStatus } from "@/lib/log";
+import { decode } from "light-bolt11-decoder";
+
+const PAYMENT_HASH_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+// GET /api/invoice/status?invoice=<bolt11>  or  ?paymentHash=<hex>
+export async function GET(request: NextRequest) {
+  return withWallet(request, async (wallet, _auth) => {
+    const { searchParams } = new URL(request.url);
+    const invoice = searchParams.get("invoice");
+    const paymentHash = searchParams.get("paymentHash");
+
+    if (!invoice && !paymentHash) {
+      return errorResponse("invoice or paymentHash query parameter is required", "BAD_REQUEST");
+    }
+    if (invoice) {
+      try {
+        decode(invoice);
+      } catch {
+        return errorResponse("Failed to decode invoice", "BAD_REQUEST");
+      }
+    } else if (!PAYMENT_HASH_PATTERN.test(paymentHash!)) {
+      return errorResponse("paymentHash must be 64 hex characters", "BAD_REQUEST");
+    }
+
+    const status = await getInvoiceStatus(wallet, {
+      invoice: invoice ?? undefined,
+      paymentHash: paymentHash ?? undefined,
+    });
+
+    if (!status) {
+      return errorResponse("No invoice or payment found for this payment hash", "BAD_REQUEST", 404);
+    }
+
+    return successResponse(status);
+  }, { scope: "invoice:read" });
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { decode } from "light-bolt11-decoder";
-import { verifyAuth } from "@/lib/auth";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
 
 interface L402Challenge {
   invoice: string;
@@ -126,11 +126,9 @@ async function previewL402(url: string, method: string = "GET", headers: Record<
 // GET /api/l402/preview?url=...
 export async function GET(request: NextRequest) {
   const auth = await verifyAuth(request);
-  if (!auth) {
-    return NextResponse.json(
-      { success: false, error: "Invalid or missing authorization token", code: "UNAUTHORIZED" },
-      { status: 401 }
-    );
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "fees:read")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("fees:read") }, { status: 403 });
   }
 
   const url = request.nextUrl.searchParams.get("url");
@@ -154,11 +152,9 @@ export async function GET(request: NextRequest) {
 // POST /api/l402/preview
 export async function POST(request: NextRequest) {
   const auth = await verifyAuth(request);
-  if (!auth) {
-    return NextResponse.json(
-      { success: false, error: "Invalid or missing authorization token", code: "UNAUTHORIZED" },
-      { status: 401 }
-    );
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "fees:read")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("fees:read") }, { status: 403 });
   }
 
   let body;
@@ -1,8 +1,7 @@
 import { NextRequest } from "next/server";
 import { withWallet, successResponse, errorResponse } from "@/lib/spark";
 import { logEvent } from "@/lib/log";
-import { canPay } from "@/lib/auth";
-import { getPendingL402, deletePendingL402 } from "../route";
+import { getPendingL402, deletePendingL402 } from "@/lib/l402";
 
 const MAX_POLL_ATTEMPTS = 10;
 const POLL_INTERVAL_MS = 500;
@@ -42,15 +41,7 @@ export async function GET(request: NextRequest) {
     return errorResponse("id query parameter is required", "BAD_REQUEST");
   }
 
-  return withWallet(request, async (wallet, auth) => {
-    if (!canPay(auth.role)) {
-      return errorResponse(
-        "This token does not have permission to check L402 status",
-        "UNAUTHORIZED",
-        403
-      );
-    }
-
+  return withWallet(request, async (wallet, _auth) => {
     // Get the pending L402 from Redis
     const pending = await getPendingL402(pendingId);
     if (!pending) {
@@ -125,8 +116,12 @@ export async function GET(request: NextRequest) {
     await logEvent({
       action: "l402_payment",
       success: true,
+      amountSats: pending.amountSats,
       url: pending.url,
       priceSats: pending.priceSats,
+      feeSats: pending.feeSats,
+      reservedSats: pending.reservedSats,
+      budgetAdjustmentSats: pending.budgetAdjustmentSats,
     });
 
     // Retry the original request with L402 authorization
@@ -177,5 +172,5 @@ export async function GET(request: NextRequest) {
       preimage,
       data: finalResult.data,
     });
-  });
+  }, { scope: "l402:fetch" });
 }
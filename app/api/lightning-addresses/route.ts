@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import {
+  listLightningAddresses,
+  saveLightningAddress,
+  deleteLightningAddress,
+  isValidUsername,
+  DEFAULT_MIN_SENDABLE_SATS,
+  DEFAULT_MAX_SENDABLE_SATS,
+  MAX_COMMENT_LENGTH,
+} from "@/lib/lightning-address";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+async function requireManageScope(request: NextRequest): Promise<NextResponse | null> {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "lightning-addresses:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("lightning-addresses:manage") }, { status: 403 });
+  }
+  return null;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  const host = request.nextUrl.host;
+  const addresses = (await listLightningAddresses()).map((address) => ({
+    ...address,
+    lightningAddress: `${address.username}@${host}`,
+  }));
+  return NextResponse.json({ success: true, data: { addresses } });
+}
+
+// POST /api/lightning-addresses  { username, minSendableSats?, maxSendableSats?, description?, commentAllowed? }
+// Creates the address, or replaces its settings if it already exists.
+export async function POST(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const {
+    username,
+    minSendableSats = DEFAULT_MIN_SENDABLE_SATS,
+    maxSendableSats = DEFAULT_MAX_SENDABLE_SATS,
+    description,
+    commentAllowed = 0,
+  } = body;
+
+  if (typeof username !== "string" || !isValidUsername(username)) {
+    return jsonError("username must be 1-64 characters of a-z, 0-9, '.', '_' or '-'", "BAD_REQUEST", 400);
+  }
+  if (!isPositiveInteger(minSendableSats) || !isPositiveInteger(maxSendableSats)) {
+    return jsonError("minSendableSats and maxSendableSats must be positive integers", "BAD_REQUEST", 400);
+  }
+  if (minSendableSats > maxSendableSats) {
+    return jsonError("minSendableSats must not exceed maxSendableSats", "BAD_REQUEST", 400);
+  }
+  if (description !== undefined && (typeof description !== "string" || description.length > 200)) {
+    return jsonError("description must be a string of at most 200 characters", "BAD_REQUEST", 400);
+  }
+  if (
+    typeof commentAllowed !== "number" ||
+    !Number.isInteger(commentAllowed) ||
+    commentAllowed < 0 ||
+    commentAllowed > MAX_COMMENT_LENGTH
+  ) {
+    return jsonError(`commentAllowed must be an integer from 0 to ${MAX_COMMENT_LENGTH}`, "BAD_REQUEST", 400);
+  }
+
+  const address = await saveLightningAddress({
+    username,
+    minSendableSats,
+    maxSendableSats,
+    description,
+    commentAllowed,
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: { ...address, lightningAddress: `${address.username}@${request.nextUrl.host}` },
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { username } = body;
+  if (!username || typeof username !== "string") {
+    return jsonError("username is required", "BAD_REQUEST", 400);
+  }
+
+  const deleted = await deleteLightningAddress(username);
+  if (!deleted) {
+    return jsonError("Lightning Address not found", "BAD_REQUEST", 404);
+  }
+
+  return NextResponse.json({ success: true, data: { deleted: true } });
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { withWallet } from "@/lib/spark";
+import { handleLnurlPay } from "@/lib/lnurl";
+
+// Pay a Lightning Address (name@domain) or LNURL-pay endpoint
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    const body = await request.json();
+    return handleLnurlPay(wallet, auth, body);
+  }, { idempotent: true });
+}
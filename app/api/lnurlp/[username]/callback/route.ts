@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { withPublicWallet } from "@/lib/spark";
+import { logEvent, trackPendingInvoice } from "@/lib/log";
+import {
+  getLightningAddress,
+  buildMetadata,
+  hashMetadata,
+  lnurlResponse,
+  lnurlError,
+  INVOICE_EXPIRY_SECONDS,
+} from "@/lib/lightning-address";
+
+// LNURL-pay callback: GET /api/lnurlp/<username>/callback?amount=<msat>&comment=
+// Public, no auth — mints an invoice committing to the address metadata.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  const { username } = await params;
+  const address = await getLightningAddress(username);
+  if (!address) {
+    return lnurlError("Unknown Lightning Address", 404);
+  }
+
+  const { searchParams, host } = request.nextUrl;
+  const amountMsat = Number(searchParams.get("amount"));
+  if (!Number.isInteger(amountMsat) || amountMsat <= 0 || amountMsat % 1000 !== 0) {
+    return lnurlError("amount must be a whole number of sats, in millisats");
+  }
+  const amountSats = amountMsat / 1000;
+  if (amountSats < address.minSendableSats || amountSats > address.maxSendableSats) {
+    return lnurlError(
+      `amount must be between ${address.minSendableSats * 1000} and ${address.maxSendableSats * 1000} millisats`
+    );
+  }
+
+  const comment = searchParams.get("comment") || undefined;
+  if (comment && comment.length > address.commentAllowed) {
+    return lnurlError(
+      address.commentAllowed > 0
+        ? `comment must be at most ${address.commentAllowed} characters`
+        : "Comments are not accepted"
+    );
+  }
+
+  const identifier = `${address.username}@${host}`;
+  const memo = comment ? `${identifier}: ${comment}` : identifier;
+
+  return withPublicWallet(async (wallet) => {
+    const result = await wallet.createLightningInvoice({
+      amountSats,
+      descriptionHash: hashMetadata(buildMetadata(address, host)),
+      expirySeconds: INVOICE_EXPIRY_SECONDS,
+    });
+
+    const encodedInvoice = result.invoice.encodedInvoice;
+
+    await Promise.all([
+      logEvent({
+        action: "invoice_created",
+        success: true,
+        amountSats,
+        memo,
+        invoice: encodedInvoice.slice(0, 30),
+      }),
+      trackPendingInvoice({
+        encodedInvoice,
+        amountSats,
+        memo,
+        expirySeconds: INVOICE_EXPIRY_SECONDS,
+        paymentHash: result.invoice.paymentHash,
+      }),
+    ]);
+
+    return lnurlResponse({ pr: encodedInvoice, routes: [] });
+  });
+}
@@ -0,0 +1,95 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import { decode } from "light-bolt11-decoder";
+import { withPublicWallet } from "@/lib/spark";
+import { getAuthByTokenId } from "@/lib/auth";
+import { handlePay } from "@/lib/payments";
+import { logEvent } from "@/lib/log";
+import {
+  getVoucher,
+  isVoucherExpired,
+  claimVoucherUse,
+  releaseVoucherUse,
+} from "@/lib/vouchers";
+import { lnurlResponse, lnurlError } from "@/lib/lightning-address";
+import type { ApiResponse } from "@/lib/types";
+
+function safeCompare(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// LNURL-withdraw callback: GET /api/lnurlw/<voucherId>/callback?k1=&pr=<bolt11>
+// Pays the submitted invoice from the wallet. Withdrawals count against the
+// budget and limits of the token that created the voucher.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const k1 = request.nextUrl.searchParams.get("k1") || "";
+  const pr = request.nextUrl.searchParams.get("pr") || "";
+
+  const voucher = await getVoucher(id);
+  if (!voucher || !safeCompare(k1, voucher.k1)) {
+    return lnurlError("Unknown voucher", 404);
+  }
+  if (isVoucherExpired(voucher)) {
+    return lnurlError("Voucher has expired");
+  }
+
+  let amountSats: number | undefined;
+  try {
+    const amountSection = decode(pr).sections.find((s) => s.name === "amount");
+    if (amountSection && "value" in amountSection && amountSection.value) {
+      amountSats = Number(amountSection.value) / 1000;
+    }
+  } catch {
+    return lnurlError("Failed to decode invoice");
+  }
+  if (amountSats !== voucher.perUseSats) {
+    return lnurlError(`Invoice amount must be exactly ${voucher.perUseSats} sats`);
+  }
+
+  const auth = await getAuthByTokenId(voucher.createdBy);
+  if (!auth) {
+    return lnurlError("Voucher is no longer valid");
+  }
+
+  const claim = await claimVoucherUse(voucher);
+  if (!claim.claimed) {
+    return lnurlError(claim.reason);
+  }
+
+  return withPublicWallet(async (wallet) => {
+    let outcome: ApiResponse;
+    try {
+      // The voucher itself is the approval — skip the token's approval queue
+      const response = await handlePay(
+        wallet,
+        auth,
+        { invoice: pr, maxFeeSats: voucher.maxFeeSats },
+        { approvedAmountSats: voucher.perUseSats }
+      );
+      outcome = await response.json();
+    } catch (err) {
+      await releaseVoucherUse(voucher);
+      return lnurlError(err instanceof Error ? err.message || "Payment failed" : "Payment failed", 500);
+    }
+
+    if (!outcome.success) {
+      await releaseVoucherUse(voucher);
+      return lnurlError(outcome.error);
+    }
+
+    await logEvent({
+      action: "voucher_redeemed",
+      success: true,
+      amountSats: voucher.perUseSats,
+      invoice: pr.slice(0, 30),
+      voucherId: voucher.id,
+    });
+
+    return lnurlResponse({ status: "OK" });
+  });
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { getVoucher, getVoucherUsage, isVoucherExpired } from "@/lib/vouchers";
+import { lnurlResponse, lnurlError } from "@/lib/lightning-address";
+
+// LUD-03: GET /api/lnurlw/<voucherId> — public, the voucher id is the secret
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const voucher = await getVoucher(id);
+  if (!voucher) {
+    return lnurlError("Unknown voucher", 404);
+  }
+  if (isVoucherExpired(voucher)) {
+    return lnurlError("Voucher has expired");
+  }
+
+  const usage = await getVoucherUsage(id);
+  if (usage.usesClaimed >= voucher.uses || usage.spentSats + voucher.perUseSats > voucher.totalSats) {
+    return lnurlError("Voucher has already been used");
+  }
+
+  return lnurlResponse({
+    tag: "withdrawRequest",
+    callback: `${request.nextUrl.origin}/api/lnurlw/${voucher.id}/callback`,
+    k1: voucher.k1,
+    defaultDescription: voucher.label || "Voucher withdrawal",
+    minWithdrawable: voucher.perUseSats * 1000,
+    maxWithdrawable: voucher.perUseSats * 1000,
+  });
+}
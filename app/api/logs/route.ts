@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAuth } from "@/lib/auth";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
 import { getRecentLogs } from "@/lib/log";
 
 export async function GET(request: NextRequest) {
   const auth = await verifyAuth(request);
-  if (!auth) {
-    return NextResponse.json(
-      { success: false, error: "Invalid or missing authorization token", code: "UNAUTHORIZED" },
-      { status: 401 }
-    );
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "logs:read")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("logs:read") }, { status: 403 });
   }
 
   const { searchParams } = new URL(request.url);
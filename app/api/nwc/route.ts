@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import {
+  createNwcConnection,
+  deleteNwcConnection,
+  getNwcConfig,
+  getNwcConnection,
+  listNwcConnections,
+} from "@/lib/nwc";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+const NOT_CONFIGURED = "Nostr Wallet Connect is not configured (set NWC_SECRET_KEY and NWC_RELAY_URL)";
+
+// Tokens with nwc:manage see every connection; others only their own
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "nwc:connect")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("nwc:connect") }, { status: 403 });
+  }
+
+  const connections = await listNwcConnections(hasScope(auth, "nwc:manage") ? undefined : auth.tokenId);
+  return NextResponse.json({ success: true, data: { connections } });
+}
+
+// POST /api/nwc  { label? }
+// Creates a connection acting as the calling token. The connection string
+// contains the client secret and is only returned here — store it.
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "nwc:connect")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("nwc:connect") }, { status: 403 });
+  }
+
+  const config = getNwcConfig();
+  if (!config) return jsonError(NOT_CONFIGURED, "BAD_REQUEST", 400);
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await request.json();
+  } catch {
+    // Empty body is fine — label is optional
+  }
+  const { label } = body;
+  if (label !== undefined && typeof label !== "string") {
+    return jsonError("label must be a string", "BAD_REQUEST", 400);
+  }
+
+  const { connection, connectionString } = await createNwcConnection(config, auth.tokenId, label || auth.label);
+  return NextResponse.json({ success: true, data: { ...connection, connectionString } });
+}
+
+// DELETE /api/nwc  { pubkey }
+export async function DELETE(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "nwc:connect")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("nwc:connect") }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+  const { pubkey } = body;
+  if (!pubkey || typeof pubkey !== "string") {
+    return jsonError("pubkey is required", "BAD_REQUEST", 400);
+  }
+
+  const connection = await getNwcConnection(pubkey);
+  if (!connection || (!hasScope(auth, "nwc:manage") && connection.tokenId !== auth.tokenId)) {
+    return jsonError("Connection not found", "BAD_REQUEST", 404);
+  }
+
+  await deleteNwcConnection(pubkey);
+  return NextResponse.json({ success: true, data: { deleted: true } });
+}
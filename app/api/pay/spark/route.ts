@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { withWallet } from "@/lib/spark";
+import { handleSparkInvoicePay } from "@/lib/spark-invoices";
+
+// POST /api/pay/spark  { invoice, amountSats? }
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    const body = await request.json();
+    return handleSparkInvoicePay(wallet, auth, body);
+  }, { idempotent: true });
+}
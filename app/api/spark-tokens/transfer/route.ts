@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { withWallet } from "@/lib/spark";
+import { handleTokenTransfer } from "@/lib/spark-tokens";
+
+// POST /api/spark-tokens/transfer  { tokenIdentifier, tokenAmount, receiverSparkAddress }
+// Separate from /api/tokens, which manages API tokens.
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    const body = await request.json();
+    return handleTokenTransfer(wallet, auth, body);
+  }, { idempotent: true });
+}
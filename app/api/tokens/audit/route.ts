@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { getTokenAudit } from "@/lib/token-audit";
+
+// GET /api/tokens/audit?id=&limit= — edits made through PATCH /api/tokens (tokens:manage)
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "tokens:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("tokens:manage") }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get("id") || undefined;
+  const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 500);
+
+  const entries = await getTokenAudit(id, limit);
+  return NextResponse.json({ success: true, data: { entries, count: entries.length } });
+}
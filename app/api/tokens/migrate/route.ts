@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyAuth,
+  authFailureResponse,
+  hasScope,
+  getScopeFailure,
+  isTokenHashingConfigured,
+  TOKEN_HASH_SECRET_MISSING,
+  migrateLegacyTokens,
+} from "@/lib/auth";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+// POST /api/tokens/migrate — move plaintext tokens to hashed storage (tokens:manage)
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "tokens:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("tokens:manage") }, { status: 403 });
+  }
+
+  if (!isTokenHashingConfigured()) {
+    return jsonError(TOKEN_HASH_SECRET_MISSING, "INTERNAL_ERROR", 500);
+  }
+
+  const result = await migrateLegacyTokens();
+  return NextResponse.json({ success: true, data: result });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyAuth,
+  authFailureResponse,
+  hasScope,
+  getScopeFailure,
+  isTokenHashingConfigured,
+  TOKEN_HASH_SECRET_MISSING,
+  parseTokenExpiry,
+  rotateToken,
+  DEFAULT_ROTATION_GRACE_SECONDS,
+  MAX_ROTATION_GRACE_SECONDS,
+} from "@/lib/auth";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+// POST /api/tokens/rotate  { id, gracePeriodSeconds?, expiresAt? | expiresInSeconds? }
+// Issues a replacement token; the old one works until the grace period ends.
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "tokens:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("tokens:manage") }, { status: 403 });
+  }
+
+  if (!isTokenHashingConfigured()) {
+    return jsonError(TOKEN_HASH_SECRET_MISSING, "INTERNAL_ERROR", 500);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id } = body;
+  const gracePeriodSeconds = body.gracePeriodSeconds ?? DEFAULT_ROTATION_GRACE_SECONDS;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+  if (
+    typeof gracePeriodSeconds !== "number" ||
+    !Number.isInteger(gracePeriodSeconds) ||
+    gracePeriodSeconds < 0 ||
+    gracePeriodSeconds > MAX_ROTATION_GRACE_SECONDS
+  ) {
+    return jsonError(
+      `gracePeriodSeconds must be an integer from 0 to ${MAX_ROTATION_GRACE_SECONDS}`,
+      "BAD_REQUEST",
+      400
+    );
+  }
+  const expiry = parseTokenExpiry(body);
+  if ("error" in expiry) {
+    return jsonError(expiry.error, "BAD_REQUEST", 400);
+  }
+
+  const rotated = await rotateToken(id, { gracePeriodSeconds, expiresAt: expiry.expiresAt });
+  if (!rotated) {
+    return jsonError("Token not found or expired", "BAD_REQUEST", 404);
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      id,
+      token: rotated.token,
+      expiresAt: rotated.expiresAt,
+      previousTokenExpiresAt: rotated.previousExpiresAt,
+    },
+  });
+}
@@ -1,80 +1,286 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   verifyAuth,
+  authFailureResponse,
+  hasScope,
+  getScopeFailure,
   createToken,
   listTokens,
   revokeToken,
-  type TokenRole,
+  updateToken,
+  getTokenId,
+  isTokenHashingConfigured,
+  TOKEN_HASH_SECRET_MISSING,
+  parseTokenExpiry,
+  parseScopes,
+  getTokenScopes,
+  isPresetRole,
+  EXTRA_BUDGET_FIELDS,
+  TOKEN_LIMIT_FIELDS,
+  type AuthResult,
+  type TokenLimits,
+  type TokenScope,
+  type TokenUpdate,
 } from "@/lib/auth";
+import { parseDestinationPolicy } from "@/lib/destinations";
+import { parseSparkTokenLimits } from "@/lib/spark-tokens";
+import { parseRateLimits } from "@/lib/rate-limit";
+
+type LimitChanges = { [K in keyof TokenLimits]?: TokenLimits[K] | null };
 
 function jsonError(error: string, code: string, status: number) {
   return NextResponse.json({ success: false, error, code }, { status });
 }
 
-async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+async function requireManageScope(request: NextRequest): Promise<AuthResult | NextResponse> {
   const auth = await verifyAuth(request);
-  if (!auth) return jsonError("Invalid or missing authorization token", "UNAUTHORIZED", 401);
-  if (auth.role !== "admin") return jsonError("Admin token required to manage tokens", "UNAUTHORIZED", 403);
-  return null;
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "tokens:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("tokens:manage") }, { status: 403 });
+  }
+  return auth;
+}
+
+// Validate the limit and policy fields present in a request body. With
+// allowNull (PATCH), null clears a field.
+function parseLimitFields(
+  body: Record<string, unknown>,
+  allowNull: boolean
+): { limits: LimitChanges } | { error: string } {
+  const limits: LimitChanges = {};
+  const given = (value: unknown) => value !== undefined && !(allowNull && value === null);
+  if (allowNull) {
+    for (const field of TOKEN_LIMIT_FIELDS) {
+      if (body[field] === null) limits[field] = null;
+    }
+  }
+
+  const { maxTxSats, dailyBudgetSats, approvalThresholdSats } = body;
+  if (given(maxTxSats)) {
+    if (typeof maxTxSats !== "number" || maxTxSats <= 0) {
+      return { error: "maxTxSats must be a positive number" };
+    }
+    limits.maxTxSats = maxTxSats;
+  }
+  if (given(dailyBudgetSats)) {
+    if (typeof dailyBudgetSats !== "number" || dailyBudgetSats <= 0) {
+      return { error: "dailyBudgetSats must be a positive number" };
+    }
+    limits.dailyBudgetSats = dailyBudgetSats;
+  }
+  for (const field of EXTRA_BUDGET_FIELDS) {
+    const value = body[field];
+    if (!given(value)) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      return { error: `${field} must be a positive integer` };
+    }
+    limits[field] = value;
+  }
+  if (given(approvalThresholdSats)) {
+    if (
+      typeof approvalThresholdSats !== "number" ||
+      !Number.isInteger(approvalThresholdSats) ||
+      approvalThresholdSats < 0
+    ) {
+      return { error: "approvalThresholdSats must be a non-negative integer" };
+    }
+    limits.approvalThresholdSats = approvalThresholdSats;
+  }
+  if (given(body.destinations)) {
+    const parsed = parseDestinationPolicy(body.destinations);
+    if ("error" in parsed) return { error: parsed.error };
+    limits.destinations = parsed.policy;
+  }
+  if (given(body.sparkTokenLimits)) {
+    const parsed = parseSparkTokenLimits(body.sparkTokenLimits);
+    if ("error" in parsed) return { error: parsed.error };
+    limits.sparkTokenLimits = parsed.limits;
+  }
+  if (given(body.rateLimits)) {
+    const parsed = parseRateLimits(body.rateLimits);
+    if ("error" in parsed) return { error: parsed.error };
+    limits.rateLimits = parsed.limits;
+  }
+  return { limits };
 }
 
 export async function GET(request: NextRequest) {
-  const denied = await requireAdmin(request);
-  if (denied) return denied;
+  const admin = await requireManageScope(request);
+  if (admin instanceof NextResponse) return admin;
 
   const tokens = await listTokens();
   return NextResponse.json({ success: true, data: { tokens } });
 }
 
 export async function POST(request: NextRequest) {
-  const denied = await requireAdmin(request);
-  if (denied) return denied;
+  const admin = await requireManageScope(request);
+  if (admin instanceof NextResponse) return admin;
+
+  if (!isTokenHashingConfigured()) {
+    return jsonError(TOKEN_HASH_SECRET_MISSING, "INTERNAL_ERROR", 500);
+  }
 
   const body = await request.json();
-  const { role, label, maxTxSats, dailyBudgetSats } = body;
+  const { role, label } = body;
 
-  const validRoles: TokenRole[] = ["admin", "invoice", "pay-only", "read-only"];
-  if (!role || !validRoles.includes(role)) {
-    return jsonError('role is required and must be "admin", "invoice", "pay-only", or "read-only"', "BAD_REQUEST", 400);
+  // A preset role, or an explicit scope list (role "custom")
+  let scopes: TokenScope[] | undefined;
+  if (body.scopes !== undefined) {
+    if (role !== undefined && role !== "custom") {
+      return jsonError("Pass role or scopes, not both", "BAD_REQUEST", 400);
+    }
+    const parsedScopes = parseScopes(body.scopes);
+    if ("error" in parsedScopes) {
+      return jsonError(parsedScopes.error, "BAD_REQUEST", 400);
+    }
+    scopes = parsedScopes.scopes;
+  } else if (!isPresetRole(role)) {
+    return jsonError(
+      'role must be "admin", "invoice", "pay-only", or "read-only", or pass scopes instead',
+      "BAD_REQUEST",
+      400
+    );
   }
   if (!label || typeof label !== "string") {
     return jsonError("label is required", "BAD_REQUEST", 400);
   }
-  if (maxTxSats !== undefined && (typeof maxTxSats !== "number" || maxTxSats <= 0)) {
-    return jsonError("maxTxSats must be a positive number", "BAD_REQUEST", 400);
+  const parsed = parseLimitFields(body, false);
+  if ("error" in parsed) {
+    return jsonError(parsed.error, "BAD_REQUEST", 400);
   }
-  if (dailyBudgetSats !== undefined && (typeof dailyBudgetSats !== "number" || dailyBudgetSats <= 0)) {
-    return jsonError("dailyBudgetSats must be a positive number", "BAD_REQUEST", 400);
+  const limits = parsed.limits as TokenLimits;
+
+  const expiry = parseTokenExpiry(body);
+  if ("error" in expiry) {
+    return jsonError(expiry.error, "BAD_REQUEST", 400);
   }
 
-  const token = await createToken({
-    role: role as TokenRole,
+  const tokenRole = scopes ? "custom" : role;
+  const { id, token } = await createToken({
+    role: tokenRole,
+    scopes,
     label,
-    maxTxSats,
-    dailyBudgetSats,
+    ...limits,
+    expiresAt: expiry.expiresAt,
   });
 
   return NextResponse.json({
     success: true,
-    data: { token, role, label, maxTxSats, dailyBudgetSats },
+    data: {
+      id,
+      token,
+      role: tokenRole,
+      scopes: getTokenScopes({ role: tokenRole, scopes }),
+      label,
+      ...limits,
+      expiresAt: expiry.expiresAt,
+    },
+  });
+}
+
+// PATCH /api/tokens  { id, role? | scopes?, label?, <limit fields>?, expiresAt? | expiresInSeconds? }
+// Edits a token in place; the bearer token doesn't change. null clears a field.
+// A preset role replaces any scope list; scopes make the token "custom".
+export async function PATCH(request: NextRequest) {
+  const admin = await requireManageScope(request);
+  if (admin instanceof NextResponse) return admin;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id, role, label } = body;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+
+  const update: TokenUpdate = {};
+  if (body.scopes !== undefined) {
+    if (role !== undefined && role !== "custom") {
+      return jsonError("Pass role or scopes, not both", "BAD_REQUEST", 400);
+    }
+    const parsedScopes = parseScopes(body.scopes);
+    if ("error" in parsedScopes) {
+      return jsonError(parsedScopes.error, "BAD_REQUEST", 400);
+    }
+    update.role = "custom";
+    update.scopes = parsedScopes.scopes;
+  } else if (role !== undefined) {
+    if (!isPresetRole(role)) {
+      return jsonError(
+        'role must be "admin", "invoice", "pay-only", or "read-only", or pass scopes instead',
+        "BAD_REQUEST",
+        400
+      );
+    }
+    update.role = role;
+    update.scopes = null;
+  }
+  if (label !== undefined) {
+    if (!label || typeof label !== "string") {
+      return jsonError("label must be a non-empty string", "BAD_REQUEST", 400);
+    }
+    update.label = label;
+  }
+  const parsed = parseLimitFields(body, true);
+  if ("error" in parsed) {
+    return jsonError(parsed.error, "BAD_REQUEST", 400);
+  }
+  Object.assign(update, parsed.limits);
+  if (body.expiresAt === null) {
+    update.expiresAt = null;
+  } else {
+    const expiry = parseTokenExpiry(body);
+    if ("error" in expiry) {
+      return jsonError(expiry.error, "BAD_REQUEST", 400);
+    }
+    if (expiry.expiresAt) update.expiresAt = expiry.expiresAt;
+  }
+  if (Object.keys(update).length === 0) {
+    return jsonError("Nothing to update", "BAD_REQUEST", 400);
+  }
+
+  const result = await updateToken(id, update, admin);
+  if (!result) {
+    return jsonError("Token not found", "BAD_REQUEST", 404);
+  }
+  if ("error" in result) {
+    return jsonError(result.error, "EDIT_CONFLICT", 409);
+  }
+
+  const { after, changes, audit } = result;
+  return NextResponse.json({
+    success: true,
+    data: { id, ...after, scopes: getTokenScopes(after), changes, auditId: audit?.id },
   });
 }
 
 export async function DELETE(request: NextRequest) {
-  const denied = await requireAdmin(request);
-  if (denied) return denied;
+  const admin = await requireManageScope(request);
+  if (admin instanceof NextResponse) return admin;
 
   const body = await request.json();
   const { token } = body;
+  let { id } = body;
 
-  if (!token || typeof token !== "string") {
-    return jsonError("token is required", "BAD_REQUEST", 400);
+  // Revoke by id; the full token is still accepted for older scripts
+  if (id === undefined && typeof token === "string" && token) {
+    id = await getTokenId(token);
+    if (!id) {
+      return jsonError("Token not found", "BAD_REQUEST", 404);
+    }
+  }
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
   }
 
-  const revoked = await revokeToken(token);
+  const revoked = await revokeToken(id);
   if (!revoked) {
     return jsonError("Token not found", "BAD_REQUEST", 404);
   }
 
-  return NextResponse.json({ success: true, data: { revoked: true } });
+  return NextResponse.json({ success: true, data: { id, revoked: true } });
 }
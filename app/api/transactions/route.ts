@@ -20,5 +20,5 @@ export async function GET(request: NextRequest) {
     }));
 
     return successResponse({ transfers, offset, limit });
-  });
+  }, { scope: "transactions:read" });
 }
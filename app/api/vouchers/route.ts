@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import {
+  createVoucher,
+  listVouchers,
+  deleteVoucher,
+  encodeLnurl,
+  DEFAULT_VOUCHER_MAX_FEE_SATS,
+} from "@/lib/vouchers";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "vouchers:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("vouchers:manage") }, { status: 403 });
+  }
+
+  const origin = request.nextUrl.origin;
+  const vouchers = (await listVouchers()).map((voucher) => ({
+    ...voucher,
+    lnurl: encodeLnurl(`${origin}/api/lnurlw/${voucher.id}`),
+  }));
+  return NextResponse.json({ success: true, data: { vouchers } });
+}
+
+// POST /api/vouchers  { totalSats, perUseSats, uses, label?, maxFeeSats?, expiresInSeconds? }
+// Returns the voucher and its LNURL — anyone holding the LNURL can withdraw.
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "vouchers:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("vouchers:manage") }, { status: 403 });
+  }
+  // Withdrawals are paid under this token, so it must be able to pay them
+  if (!hasScope(auth, "pay:lightning")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("pay:lightning") }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const {
+    totalSats,
+    perUseSats,
+    uses,
+    label,
+    maxFeeSats = DEFAULT_VOUCHER_MAX_FEE_SATS,
+    expiresInSeconds,
+  } = body;
+
+  if (!isPositiveInteger(totalSats) || !isPositiveInteger(perUseSats) || !isPositiveInteger(uses)) {
+    return jsonError("totalSats, perUseSats and uses must be positive integers", "BAD_REQUEST", 400);
+  }
+  if (perUseSats > totalSats) {
+    return jsonError("perUseSats must not exceed totalSats", "BAD_REQUEST", 400);
+  }
+  if (label !== undefined && typeof label !== "string") {
+    return jsonError("label must be a string", "BAD_REQUEST", 400);
+  }
+  if (!isPositiveInteger(maxFeeSats)) {
+    return jsonError("maxFeeSats must be a positive integer", "BAD_REQUEST", 400);
+  }
+  if (expiresInSeconds !== undefined && !isPositiveInteger(expiresInSeconds)) {
+    return jsonError("expiresInSeconds must be a positive integer", "BAD_REQUEST", 400);
+  }
+
+  const voucher = await createVoucher({
+    label,
+    totalSats,
+    perUseSats,
+    uses,
+    maxFeeSats,
+    createdBy: auth.tokenId,
+    expiresAt:
+      expiresInSeconds !== undefined
+        ? new Date(Date.now() + expiresInSeconds * 1000).toISOString()
+        : undefined,
+  });
+
+  const url = `${request.nextUrl.origin}/api/lnurlw/${voucher.id}`;
+  return NextResponse.json({
+    success: true,
+    data: { ...voucher, url, lnurl: encodeLnurl(url) },
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "vouchers:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("vouchers:manage") }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id } = body;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+
+  const deleted = await deleteVoucher(id);
+  if (!deleted) {
+    return jsonError("Voucher not found", "BAD_REQUEST", 404);
+  }
+
+  return NextResponse.json({ success: true, data: { deleted: true } });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { getDeliveryLog } from "@/lib/webhooks";
+
+// GET /api/webhooks/deliveries?id=<webhookId>&limit=50
+// Most recent delivery attempts for a webhook, newest first.
+export async function GET(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "webhooks:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("webhooks:manage") }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "id query parameter is required", code: "BAD_REQUEST" },
+      { status: 400 }
+    );
+  }
+  const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "50"), 100);
+
+  const deliveries = await getDeliveryLog(id, limit);
+  return NextResponse.json({ success: true, data: { deliveries, count: deliveries.length } });
+}
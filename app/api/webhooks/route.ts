@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import {
+  createWebhook,
+  deleteWebhook,
+  isWebhookEvent,
+  listWebhooks,
+  WEBHOOK_EVENTS,
+} from "@/lib/webhooks";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+async function requireManageScope(request: NextRequest): Promise<NextResponse | null> {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "webhooks:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("webhooks:manage") }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  const webhooks = await listWebhooks();
+  return NextResponse.json({ success: true, data: { webhooks } });
+}
+
+// POST /api/webhooks  { url, events, label? }
+// The signing secret is only returned here — store it.
+export async function POST(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { url, events, label } = body;
+
+  if (!url || typeof url !== "string") {
+    return jsonError("url is required", "BAD_REQUEST", 400);
+  }
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return jsonError("Invalid URL", "BAD_REQUEST", 400);
+  }
+  if (parsedUrl.protocol !== "https:") {
+    return jsonError("Webhook URL must use https", "BAD_REQUEST", 400);
+  }
+  if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+    return jsonError(
+      `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(", ")}`,
+      "BAD_REQUEST",
+      400
+    );
+  }
+  if (label !== undefined && typeof label !== "string") {
+    return jsonError("label must be a string", "BAD_REQUEST", 400);
+  }
+
+  const webhook = await createWebhook({
+    url: parsedUrl.toString(),
+    events: [...new Set(events)],
+    label,
+  });
+  if (!webhook) {
+    return jsonError("Too many webhooks — delete one first", "BAD_REQUEST", 409);
+  }
+
+  return NextResponse.json({ success: true, data: webhook });
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = await requireManageScope(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id } = body;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+
+  const deleted = await deleteWebhook(id);
+  if (!deleted) {
+    return jsonError("Webhook not found", "BAD_REQUEST", 404);
+  }
+
+  return NextResponse.json({ success: true, data: { deleted: true } });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuth, authFailureResponse, hasScope, getScopeFailure } from "@/lib/auth";
+import { sendTestEvent } from "@/lib/webhooks";
+
+function jsonError(error: string, code: string, status: number) {
+  return NextResponse.json({ success: false, error, code }, { status });
+}
+
+// POST /api/webhooks/test  { id }
+// Sends a signed "test" event once (no retries) and returns the delivery attempt.
+export async function POST(request: NextRequest) {
+  const auth = await verifyAuth(request);
+  if (!auth) return authFailureResponse(request);
+  if (!hasScope(auth, "webhooks:manage")) {
+    return NextResponse.json({ success: false, ...getScopeFailure("webhooks:manage") }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON body", "BAD_REQUEST", 400);
+  }
+
+  const { id } = body;
+  if (!id || typeof id !== "string") {
+    return jsonError("id is required", "BAD_REQUEST", 400);
+  }
+
+  const delivery = await sendTestEvent(id);
+  if (!delivery) {
+    return jsonError("Webhook not found", "BAD_REQUEST", 404);
+  }
+
+  return NextResponse.json({ success: true, data: { delivery } });
+}
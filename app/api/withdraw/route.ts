@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { withWallet } from "@/lib/spark";
+import { handleWithdraw } from "@/lib/withdrawals";
+
+// POST /api/withdraw  { onchainAddress, amountSats, exitSpeed?, maxFeeSats?, confirm? }
+// Returns the fee quote unless confirm is true.
+export async function POST(request: NextRequest) {
+  return withWallet(request, async (wallet, auth) => {
+    const body = await request.json();
+    return handleWithdraw(wallet, auth, body);
+  }, { idempotent: true });
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { withWallet, successResponse, errorResponse } from "@/lib/spark";
+import { formatWithdrawal } from "@/lib/withdrawals";
+
+// GET /api/withdraw/status?id=<withdrawalId>
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return errorResponse("id query parameter is required", "BAD_REQUEST");
+  }
+
+  return withWallet(request, async (wallet, _auth) => {
+    const exitRequest = await wallet.getCoopExitRequest(id);
+    if (!exitRequest) {
+      return errorResponse("Withdrawal not found", "BAD_REQUEST", 404);
+    }
+    return successResponse(formatWithdrawal(exitRequest));
+  }, { scope: "transactions:read" });
+}
@@ -6,6 +6,12 @@ This proxy provides access to a Spark Bitcoin L2 wallet. All endpoints require B
 
 ## Authentication
 Header: Authorization: Bearer <token>
+Each endpoint needs one permission scope (listed below). Without it: code INSUFFICIENT_SCOPE (403),
+with the missing scope in details.requiredScope. See "Scopes" at the end.
+
+Rate limits: each token gets a per-minute limit per class (default 120 reads, 30 invoice creations,
+20 payments). Over the limit: code RATE_LIMITED (429) with a Retry-After header and details.retryAfterSeconds.
+The request was not run — wait that long, then retry. Repeated invalid tokens from one IP are also limited.
 
 ## Receiving Funds (Refilling the Wallet)
 
@@ -19,25 +25,99 @@ POST /api/invoice/create
 Body: { "amountSats": 100, "memo": "optional", "expirySeconds": 3600 }
 Returns: { encodedInvoice }
 Pay this invoice from any Lightning wallet.
-Requires admin or invoice role.
+Scope: invoice:create.
+
+### Check Invoice Status
+GET /api/invoice/status?invoice=<bolt11>   (or ?paymentHash=<hex>)   Scope: invoice:read
+Returns: { status: "pending" | "paid" | "expired", paymentHash, amountSats, expiresAt,
+           settledAt?, amountReceivedSats?, transferId? }
+
+### Lightning Address (tips)
+If an admin has configured one, the wallet also receives at <username>@<proxy domain>
+(GET /.well-known/lnurlp/<username>, no auth). Tokens with lightning-addresses:manage manage these with
+GET/POST/DELETE /api/lightning-addresses  Body: { "username": "agent", "minSendableSats?": 1, "maxSendableSats?": 100000, "description?": "...", "commentAllowed?": 0 }
+
+### Bitcoin L1 Deposits (scope deposits:read; claiming needs deposits:claim)
+GET /api/deposit-address?label=<optional>  Returns: { address }  (single-use, fund once)
+GET /api/deposits?address=<optional>  Returns each address's status: unfunded | pending_confirmations | claimable | claimed
+POST /api/deposits/claim  Body: { "address": "bc1p..." }  Claims confirmed deposits into the balance.
+GET /api/deposit-address?type=static  Returns the wallet's reusable address (same on every call)
+GET /api/deposits/static  Returns { address, utxos: [{ txid, vout, amountSats?, claimed? }], unclaimed }
+POST /api/deposits/static/claim  Body: { "txid": "...", "vout?": 0, "maxFeeSats?": 500, "confirm?": true }
+  Without confirm: returns the quote { creditAmountSats, feeSats? }. With confirm: claims the UTXO once.
+  feeSats is only known when the server sets ESPLORA_URL. Without it, maxFeeSats fails with code FEE_UNKNOWN (409).
 
 ### Create Spark Invoice
 POST /api/invoice/spark
 Body: { "amount": 100, "memo": "optional" }
 Returns: { invoice }
-Requires admin or invoice role.
+Scope: invoice:create.
 
 ## Sending Funds
 
+Spend endpoints (/api/pay, /api/pay/spark, /api/transfer, /api/batch, /api/l402, /api/withdraw) accept an optional Idempotency-Key header.
+Retrying with the same key and body returns the original response without paying again.
+Reusing a key with a different body returns code IDEMPOTENCY_KEY_REUSED (422).
+A retry while the first request is still running returns code IDEMPOTENCY_IN_PROGRESS (409).
+Keys are per route. A server error before anything was sent (e.g. wallet init) is not stored, so retrying runs again.
+
+If the token has an approval threshold and the payment is above it, the response is
+{ status: "awaiting_approval", approvalId, amountSats } and nothing is paid yet.
+Poll GET /api/approvals/status?id=<approvalId> until status is completed, failed, rejected or expired.
+A completed approval includes the payment result in "result".
+
 ### Send via Lightning
 POST /api/pay
 Body: { "invoice": "lnbc...", "maxFeeSats": 10 }
-Requires admin or pay-only role.
+Scope: pay:lightning.
+For an amountless (zero-amount) invoice, add "amountSats": 500. Not allowed when the invoice has an amount.
+
+An invoice that was already paid (or is being paid) by this proxy is refused with code ALREADY_PAID (409).
+The earlier payment is returned in "details". This also applies to L402 invoices.
+
+### Pay a Spark Invoice
+POST /api/pay/spark
+Body: { "invoice": "spark1..." }
+Scope: pay:spark. For an invoice without an amount, add "amountSats": 500.
+Rejected: wrong network or token invoices (BAD_REQUEST), expired (INVOICE_EXPIRED), already paid (ALREADY_PAID, 409).
+Returns: { id, status, totalValue, invoiceId, receiverSparkAddress, memo }
+
+### Pay a Lightning Address or LNURL
+POST /api/lnurl/pay
+Body: { "destination": "alice@example.com", "amountSats": 500, "maxFeeSats": 10, "comment?": "thanks" }
+destination can be a Lightning Address, an lnurl1... string, or an lnurlp:// URL.
+Scope: pay:lightning. Budgets and limits apply as for /api/pay.
+Returns the payment result plus "invoice" and the endpoint's "successAction" (if any).
 
 ### Send via Spark Transfer
 POST /api/transfer
 Body: { "receiverSparkAddress": "spark1...", "amountSats": 100 }
-Requires admin or pay-only role.
+Scope: pay:spark.
+
+### Batch Payouts
+POST /api/batch
+Body: { "items": [
+  { "type": "transfer", "receiverSparkAddress": "spark1...", "amountSats": 100 },
+  { "type": "spark_invoice", "invoice": "spark1...", "amountSats?": 100 },
+  { "type": "lightning", "invoice": "lnbc...", "maxFeeSats": 10, "amountSats?": 100 } ] }
+Up to 100 items. Scopes: pay:spark for transfer and spark_invoice items, pay:lightning for lightning items.
+All items are validated and the total is reserved before anything is sent; one bad item or a budget miss rejects the batch (details.errors lists items by index).
+maxTxSats applies to each item (with its estimated fee); the approval threshold applies to the total including estimated fees.
+Returns: { batchId, sent, failed, amountSats, feeSats, items: [{ index, type, status: "sent" | "failed", id?, error? }] }
+Budget for failed items is released. Do not resend the whole batch — retry only the failed items.
+
+### Send Spark Tokens
+POST /api/spark-tokens/transfer
+Body: { "tokenIdentifier": "btkn1...", "tokenAmount": "150000000", "receiverSparkAddress": "spark1..." }
+tokenAmount is in base units. Scope: pay:spark. Non-admin tokens need a sparkTokenLimits entry for the identifier (else TOKEN_NOT_ALLOWED, 403).
+
+### Withdraw to a Bitcoin Address (on-chain)
+POST /api/withdraw
+Body: { "onchainAddress": "bc1q...", "amountSats": 50000, "exitSpeed?": "fast" | "medium" | "slow", "maxFeeSats?": 2000, "confirm?": true }
+Without confirm: returns a fee quote { feeSats, totalSats, feesBySpeed, quoteExpiresAt } and sends nothing.
+With confirm: true: withdraws. Amount + fees count against the budget. Returns { id, status, feeSats, txid? }.
+Scope: pay:onchain.
+GET /api/withdraw/status?id=<id>  status: INITIATED ... SUCCEEDED, or FAILED / EXPIRED  (scope transactions:read)
 
 ### L402 Paywall Requests
 POST /api/l402
@@ -47,51 +127,112 @@ Set "preview": true to check cost without paying (returns invoice, macaroon, pri
 Tokens are cached per-domain — subsequent requests reuse the token without paying again.
 Retries up to 3 times if server returns empty content after payment.
 May return status: "pending" if preimage takes too long — poll GET /api/l402/status?id=<pendingId> to complete.
-Requires admin or pay-only role.
+Scope: l402:fetch (also for /api/l402/status).
 
 ### Preview L402 Cost (no payment)
 POST /api/l402/preview
 Body: { "url": "https://...", "method": "GET" }
 Check if a URL requires L402 payment and how much it costs without paying.
 Returns: { requires_payment, invoice_amount_sats, invoice, macaroon }
-Works with any role.
+Scope: fees:read.
 
 ## Read-Only Endpoints
 
 ### Check Balance
-GET /api/balance
-Returns: { balance, tokenBalances }
+GET /api/balance   (scope balance:read, also for /api/info)
+Returns: { balance, tokenBalances: { "btkn1...": "<balance>" }, tokens: { "btkn1...": { balance, availableToSend, formattedBalance, ticker, name, decimals } } }
+Token amounts are base-unit integer strings; formattedBalance applies decimals.
 
 ### Get Transactions
-GET /api/transactions?limit=20&offset=0
+GET /api/transactions?limit=20&offset=0   (scope transactions:read)
 Returns recent transfers.
 
 ### Get Fee Estimate
-GET /api/fee-estimate?invoice=lnbc...
+GET /api/fee-estimate?invoice=lnbc...   (add &amountSats=500 for amountless invoices)   (scope fees:read)
 Returns estimated fee for a Lightning payment.
 
 ### Get Logs
-GET /api/logs
+GET /api/logs   (scope logs:read)
 Returns recent activity logs.
 
-## Token Management (Admin Only)
+### Get Budget Status
+GET /api/budget/status   (scope budget:read)
+Returns { maxTxSats, windows } — spent, limit, remaining and resetsAt for the calling token's
+hourly, daily, rolling_24h, weekly and monthly windows (limit null = no limit for that window).
+
+## Token Management (scope tokens:manage)
 
 ### List Tokens
 GET /api/tokens
+Returns tokens by id (the token itself is never stored), with their effective scopes, expiresAt, lastUsedAt and lastUsedRoute. legacy: true marks plaintext tokens awaiting POST /api/tokens/migrate.
 
 ### Create Token
 POST /api/tokens
 Body: { "role": "admin" | "invoice" | "pay-only" | "read-only", "label": "description", "maxTxSats?": 100, "dailyBudgetSats?": 1000 }
+Instead of role, pass "scopes": ["balance:read", "pay:spark", ...] for a custom token.
+Optional window limits: "hourlyBudgetSats", "rolling24hBudgetSats", "weeklyBudgetSats", "monthlyBudgetSats"
+Optional "destinations": { "lightningPayees"?, "sparkAddresses"?, "l402Hosts"?, "bitcoinAddresses"? }, each { "allow"?: [...], "deny"?: [...] }
+Payments to a destination outside these lists are rejected with code DESTINATION_NOT_ALLOWED (403).
+Optional "approvalThresholdSats": payments above this wait for an admin to approve them.
+  Compared with the amount sent, fees excluded — except a batch, where the total includes estimated fees.
+Optional "sparkTokenLimits": { "btkn1...": { "maxTxAmount?": "1000", "dailyAmount?": "5000" } } (base units)
+Optional "rateLimits": { "readsPerMinute?": 120, "invoicesPerMinute?": 30, "paymentsPerMinute?": 20 }
+Optional "expiresAt" (ISO 8601) or "expiresInSeconds". Expired tokens get code TOKEN_EXPIRED (401).
+Returns { id, token, ... }. The token is shown only once.
+
+### Edit Token
+PATCH /api/tokens
+Body: { "id": "<tokenId>", "role?" | "scopes?", "label?", any limit field from Create Token, "expiresAt?" | "expiresInSeconds?" }
+null clears a field. The bearer token is unchanged. Edits are recorded: GET /api/tokens/audit?id=<tokenId>
+
+### Rotate Token
+POST /api/tokens/rotate
+Body: { "id": "<tokenId>", "gracePeriodSeconds?": 86400, "expiresAt?" | "expiresInSeconds?" }
+Returns a new token with the same id, role, scopes, label and limits. The old token works until previousTokenExpiresAt.
+
+### Approval Queue (scope approvals:manage)
+GET /api/approvals?status=awaiting_approval
+POST /api/approvals/approve  Body: { "id": "<approvalId>" }  (runs the payment under the original token)
+POST /api/approvals/reject   Body: { "id": "<approvalId>", "reason?": "..." }
+
+### Webhooks (scope webhooks:manage)
+GET /api/webhooks
+POST /api/webhooks  Body: { "url": "https://...", "events": ["invoice_paid", "payment_sent"], "label?": "..." }
+  events: invoice_paid, invoice_expired, payment_sent, transfer_sent, withdrawal_sent, deposit_received, token_transfer_sent, batch_sent, l402_payment, error
+  Returns the signing secret once. Deliveries carry X-Spark-Signature: t=<unix>,v1=<HMAC-SHA256(secret, "<t>.<body>")>
+DELETE /api/webhooks  Body: { "id": "<webhookId>" }
+POST /api/webhooks/test  Body: { "id": "<webhookId>" }
+GET /api/webhooks/deliveries?id=<webhookId>
+
+### Withdraw Vouchers (LNURL-withdraw, scope vouchers:manage; creating also needs pay:lightning)
+GET /api/vouchers
+POST /api/vouchers  Body: { "totalSats": 5000, "perUseSats": 500, "uses": 10, "label?": "...", "maxFeeSats?": 10, "expiresInSeconds?": 604800 }
+  Returns "lnurl" — anyone holding it can withdraw perUseSats per use. Spend counts against the creating token's budget.
+DELETE /api/vouchers  Body: { "id": "<voucherId>" }
+
+### Nostr Wallet Connect (scope nwc:connect)
+GET /api/nwc  (own connections; nwc:manage sees all)
+POST /api/nwc  Body: { "label?": "..." }
+  Returns connectionString (nostr+walletconnect://...) once. It acts with this token's scopes, budgets and rate limits.
+  Methods: pay_invoice, make_invoice, get_balance, list_transactions, lookup_invoice, get_info
+DELETE /api/nwc  Body: { "pubkey": "<clientPubkey>" }
 
 ### Revoke Token
 DELETE /api/tokens
-Body: { "token": "token_to_revoke" }
-
-## Roles
-- admin: Full access (send, receive, create invoices, manage tokens)
-- invoice: Read + create invoices (cannot send funds)
-- pay-only: Read + pay invoices and L402 (cannot create invoices or transfer)
-- read-only: Read only (balance, info, transactions, logs)
+Body: { "id": "<tokenId>" }
+
+## Scopes
+Read: balance:read, transactions:read, logs:read, fees:read, budget:read, invoice:read, deposits:read, approvals:read, nwc:connect
+Receive: invoice:create
+Send: pay:lightning, pay:spark, pay:onchain, l402:fetch
+Manage: deposits:claim, approvals:manage, budget:manage, nwc:manage, webhooks:manage, vouchers:manage, lightning-addresses:manage, tokens:manage
+
+## Roles (scope presets)
+- admin: every scope
+- invoice: read scopes + invoice:create
+- pay-only: read scopes + pay:lightning, pay:spark, pay:onchain, l402:fetch
+- read-only: read scopes
+- custom: the token's own scope list
 `;
 
 export async function GET() {
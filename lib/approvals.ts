@@ -0,0 +1,181 @@
+import { randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { Redis } from "@upstash/redis";
+import type { AuthResult } from "./auth";
+import { logEvent } from "./log";
+import { errorResponse, successResponse } from "./spark";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+const APPROVALS_KEY = "spark:approvals";
+const DECISION_LOCK_PREFIX = "spark:approval_decision";
+const APPROVAL_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // Unanswered requests expire after 7 days
+const APPROVAL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Decided requests are kept 30 days
+
+export type ApprovalKind = "pay" | "transfer" | "l402" | "lnurl" | "withdraw" | "spark_invoice" | "batch";
+
+export type ApprovalStatus =
+  | "awaiting_approval"
+  | "executing"
+  | "completed"
+  | "failed"
+  | "rejected"
+  | "expired";
+
+export interface PendingApproval {
+  id: string;
+  kind: ApprovalKind;
+  status: ApprovalStatus;
+  tokenId: string;
+  tokenLabel: string;
+  amountSats: number;
+  body: unknown; // The original request body, replayed on approval
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string; // Label of the admin token that approved/rejected
+  reason?: string; // Rejection reason
+  result?: unknown; // Payment result once completed
+  error?: { error: string; code: string };
+}
+
+// Passed to payment handlers when they run an approved request
+export interface SpendOptions {
+  approvedAmountSats?: number;
+}
+
+function parseApproval(raw: unknown): PendingApproval {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as PendingApproval);
+}
+
+async function saveApproval(approval: PendingApproval): Promise<void> {
+  await getRedis().hset(APPROVALS_KEY, { [approval.id]: JSON.stringify(approval) });
+}
+
+export async function getApproval(id: string): Promise<PendingApproval | null> {
+  const raw = await getRedis().hget(APPROVALS_KEY, id);
+  if (!raw) return null;
+  const approval = parseApproval(raw);
+  if (approval.status === "awaiting_approval" && Date.now() > new Date(approval.expiresAt).getTime()) {
+    approval.status = "expired";
+    await saveApproval(approval);
+  }
+  return approval;
+}
+
+export async function listApprovals(status?: ApprovalStatus): Promise<PendingApproval[]> {
+  const redis = getRedis();
+  const all = await redis.hgetall(APPROVALS_KEY);
+  if (!all) return [];
+
+  const now = Date.now();
+  const approvals: PendingApproval[] = [];
+  for (const [id, raw] of Object.entries(all)) {
+    let approval: PendingApproval;
+    try {
+      approval = parseApproval(raw);
+    } catch {
+      await redis.hdel(APPROVALS_KEY, id);
+      continue;
+    }
+
+    if (now - new Date(approval.createdAt).getTime() > APPROVAL_RETENTION_MS) {
+      await redis.hdel(APPROVALS_KEY, id);
+      continue;
+    }
+    if (approval.status === "awaiting_approval" && now > new Date(approval.expiresAt).getTime()) {
+      approval.status = "expired";
+      await saveApproval(approval);
+    }
+    if (!status || approval.status === status) {
+      approvals.push(approval);
+    }
+  }
+
+  return approvals.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function updateApproval(
+  id: string,
+  changes: Partial<Omit<PendingApproval, "id">>
+): Promise<PendingApproval | null> {
+  const raw = await getRedis().hget(APPROVALS_KEY, id);
+  if (!raw) return null;
+  const approval = { ...parseApproval(raw), ...changes };
+  await saveApproval(approval);
+  return approval;
+}
+
+// Only one admin can decide a request — the first to take the lock wins.
+export async function lockApprovalDecision(id: string): Promise<boolean> {
+  const set = await getRedis().set(`${DECISION_LOCK_PREFIX}:${id}`, "1", {
+    nx: true,
+    ex: APPROVAL_RETENTION_MS / 1000,
+  });
+  return set !== null;
+}
+
+// Returns the response to send instead of paying if this payment needs a
+// human to approve it, or null if it can go ahead. amountSats is what the
+// payment sends, fees excluded. The one exception is a batch: its fees are
+// estimated and reserved with it up front, so the fee-inclusive total is what
+// gets approved.
+export async function checkApproval(
+  kind: ApprovalKind,
+  auth: AuthResult,
+  body: unknown,
+  amountSats: number,
+  options: SpendOptions = {}
+): Promise<NextResponse | null> {
+  const threshold = auth.approvalThresholdSats;
+  if (threshold === undefined || amountSats <= threshold) return null;
+
+  if (options.approvedAmountSats !== undefined) {
+    if (amountSats <= options.approvedAmountSats) return null;
+    // e.g. an L402 server asked for more than when the request was queued
+    return errorResponse(
+      `Payment amount ${amountSats} sats exceeds the approved amount of ${options.approvedAmountSats} sats`,
+      "APPROVAL_AMOUNT_CHANGED",
+      409
+    );
+  }
+
+  const now = Date.now();
+  const approval: PendingApproval = {
+    id: randomBytes(16).toString("hex"),
+    kind,
+    status: "awaiting_approval",
+    tokenId: auth.tokenId,
+    tokenLabel: auth.label,
+    amountSats,
+    body,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + APPROVAL_EXPIRY_MS).toISOString(),
+  };
+  await saveApproval(approval);
+
+  await logEvent({
+    action: "approval_requested",
+    success: true,
+    amountSats,
+    approvalId: approval.id,
+  });
+
+  return successResponse({
+    status: "awaiting_approval",
+    approvalId: approval.id,
+    amountSats,
+    expiresAt: approval.expiresAt,
+    message: `Payment of ${amountSats} sats is above this token's approval threshold of ${threshold} sats. Poll GET /api/approvals/status?id=<approvalId> for the outcome.`,
+  });
+}
@@ -1,22 +1,124 @@
-import { NextRequest } from "next/server";
-import { timingSafeEqual, randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual, randomBytes, createHmac } from "crypto";
 import { Redis } from "@upstash/redis";
+import type { DestinationPolicy } from "./destinations";
+import type { SparkTokenLimits } from "./spark-tokens";
+import {
+  diffTokenSettings,
+  newTokenAuditEntry,
+  TOKEN_AUDIT_KEY,
+  MAX_TOKEN_AUDIT_ENTRIES,
+  type TokenAuditEntry,
+} from "./token-audit";
+import {
+  checkAuthFailureLimit,
+  checkRateLimit,
+  getRateLimitClass,
+  recordAuthFailure,
+  type RateLimitResult,
+  type RateLimits,
+} from "./rate-limit";
 
-export type TokenRole = "admin" | "invoice" | "pay-only" | "read-only";
+// "custom" tokens carry an explicit scope list instead of a preset
+export type TokenRole = "admin" | "invoice" | "pay-only" | "read-only" | "custom";
+export type PresetRole = Exclude<TokenRole, "custom">;
 
-export interface TokenData {
+// What a token may do. Each route checks the one scope it needs.
+export const TOKEN_SCOPES = [
+  "balance:read", // /api/balance, /api/info, NWC get_balance
+  "transactions:read", // /api/transactions, /api/withdraw/status, NWC list_transactions
+  "logs:read", // /api/logs
+  "fees:read", // /api/fee-estimate, /api/l402/preview
+  "budget:read", // /api/budget/status
+  "invoice:read", // /api/invoice/status, NWC lookup_invoice
+  "invoice:create", // /api/invoice/create, /api/invoice/spark, NWC make_invoice
+  "deposits:read", // /api/deposit-address, /api/deposits, /api/deposits/static
+  "approvals:read", // /api/approvals/status for the token's own requests
+  "nwc:connect", // /api/nwc for the token's own connections
+  "pay:lightning", // /api/pay, /api/lnurl/pay, Lightning batch items, NWC pay_invoice
+  "pay:spark", // /api/transfer, /api/pay/spark, /api/spark-tokens/transfer, Spark batch items
+  "pay:onchain", // /api/withdraw
+  "l402:fetch", // /api/l402, /api/l402/status
+  "deposits:claim", // Claim routes; also lists every token's deposit addresses
+  "approvals:manage", // List, approve and reject any token's approvals
+  "budget:manage", // /api/budget/reset
+  "nwc:manage", // Every token's NWC connections
+  "webhooks:manage",
+  "vouchers:manage",
+  "lightning-addresses:manage",
+  "tokens:manage", // /api/tokens and its sub-routes
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Per-token spending policy. Every field is optional; unset limits fall back
+// to the env defaults (maxTxSats, dailyBudgetSats) or to "no limit".
+export interface TokenLimits {
+  maxTxSats?: number;
+  dailyBudgetSats?: number;
+  hourlyBudgetSats?: number;
+  rolling24hBudgetSats?: number;
+  weeklyBudgetSats?: number;
+  monthlyBudgetSats?: number;
+  destinations?: DestinationPolicy;
+  approvalThresholdSats?: number; // Payments above this wait for an admin (see checkApproval)
+  sparkTokenLimits?: SparkTokenLimits; // Per token identifier, in base units
+  rateLimits?: RateLimits; // Requests per minute by route class
+}
+
+export interface TokenData extends TokenLimits {
   role: TokenRole;
+  scopes?: TokenScope[]; // Only on "custom" tokens; presets use ROLE_SCOPES
   label: string;
   createdAt: string;
-  maxTxSats?: number;
-  dailyBudgetSats?: number;
+  expiresAt?: string; // Unset = never expires
+  rotatedAt?: string; // Set on the old credential when the token is rotated
 }
 
 export interface AuthResult {
   role: TokenRole;
-  tokenId: string; // The token string (for per-token budget tracking)
+  scopes: TokenScope[];
+  tokenId: string; // Public token id (for per-token budget tracking), "env" for API_AUTH_TOKEN
+  label: string;
   maxTxSats: number;
   dailyBudgetSats: number;
+  // Optional extra windows — unset means no limit for that window
+  hourlyBudgetSats?: number;
+  rolling24hBudgetSats?: number;
+  weeklyBudgetSats?: number;
+  monthlyBudgetSats?: number;
+  destinations?: DestinationPolicy; // Unset = any destination
+  approvalThresholdSats?: number; // Unset = never needs approval
+  sparkTokenLimits?: SparkTokenLimits; // Unset = admin only, no limits
+  rateLimits?: RateLimits; // Unset fields = env defaults
+}
+
+// Optional spending windows, in addition to maxTxSats/dailyBudgetSats
+export const EXTRA_BUDGET_FIELDS = [
+  "hourlyBudgetSats",
+  "rolling24hBudgetSats",
+  "weeklyBudgetSats",
+  "monthlyBudgetSats",
+] as const;
+
+export const TOKEN_LIMIT_FIELDS: (keyof TokenLimits)[] = [
+  "maxTxSats",
+  "dailyBudgetSats",
+  ...EXTRA_BUDGET_FIELDS,
+  "destinations",
+  "approvalThresholdSats",
+  "sparkTokenLimits",
+  "rateLimits",
+];
+
+function pickLimits(source: TokenLimits): TokenLimits {
+  const limits: TokenLimits = {};
+  for (const field of TOKEN_LIMIT_FIELDS) {
+    if (source[field] !== undefined) {
+      Object.assign(limits, { [field]: source[field] });
+    }
+  }
+  return limits;
 }
 
 let _redis: Redis | null = null;
@@ -31,7 +133,39 @@ function getRedis(): Redis {
   return _redis;
 }
 
-const TOKENS_KEY = "spark:tokens";
+// Tokens are stored under HMAC-SHA256(token, TOKEN_HASH_SECRET), so Redis
+// never holds a usable credential. Plaintext entries from before hashing stay
+// readable until migrateLegacyTokens moves them. During a rotation two
+// credentials (old and new) share one id.
+const TOKENS_KEY = "spark:api_tokens"; // Hash HMAC(token) -> StoredToken
+const LEGACY_TOKENS_KEY = "spark:tokens"; // Hash token -> TokenData (plaintext)
+const USAGE_KEY = "spark:token_usage"; // Hash token id -> TokenUsage
+const USAGE_THROTTLE_PREFIX = "spark:token_usage_throttle";
+const USAGE_WRITE_INTERVAL = 60; // Record a token's use at most once a minute
+
+export const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+export const MAX_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+interface StoredToken extends TokenData {
+  id: string;
+}
+
+export interface TokenUsage {
+  lastUsedAt: string;
+  lastUsedRoute: string; // e.g. "POST /api/pay"
+}
+
+export interface AuthFailure {
+  error: string;
+  code: "UNAUTHORIZED" | "TOKEN_EXPIRED" | "RATE_LIMITED";
+  retryAfterSeconds?: number; // RATE_LIMITED only
+}
+
+export interface ScopeFailure {
+  error: string;
+  code: "INSUFFICIENT_SCOPE";
+  details: { requiredScope: TokenScope };
+}
 
 function safeCompare(a: string, b: string): boolean {
   if (a.length !== b.length) return false;
@@ -45,121 +179,622 @@ function getDefaultLimits() {
   };
 }
 
-export async function verifyAuth(
-  request: NextRequest
-): Promise<AuthResult | null> {
+function parseTokenData(raw: unknown): TokenData {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as TokenData);
+}
+
+function parseStoredToken(raw: unknown): StoredToken {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as StoredToken);
+}
+
+function parseUsage(raw: unknown): TokenUsage {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as TokenUsage);
+}
+
+function isExpired(data: TokenData): boolean {
+  return !!data.expiresAt && Date.now() >= new Date(data.expiresAt).getTime();
+}
+
+// Plaintext tokens used their first 16 characters as the id. Migrated tokens
+// keep it, so their budgets, approvals and connections carry over.
+function legacyTokenId(token: string): string {
+  return token.slice(0, 16);
+}
+
+export function isTokenHashingConfigured(): boolean {
+  return !!process.env.TOKEN_HASH_SECRET;
+}
+
+// Returned by the token routes that need hashing. Deployments upgraded from
+// plaintext storage don't have the secret yet.
+export const TOKEN_HASH_SECRET_MISSING =
+  "Server misconfiguration: TOKEN_HASH_SECRET not set. Set it (openssl rand -base64 32) and redeploy; " +
+  "existing tokens keep working, then move them over with POST /api/tokens/migrate";
+
+function hashToken(token: string): string {
+  const secret = process.env.TOKEN_HASH_SECRET;
+  if (!secret) throw new Error(TOKEN_HASH_SECRET_MISSING);
+  return createHmac("sha256", secret).update(token).digest("hex");
+}
+
+// Hashed credentials with the given id (two while a rotation is in its grace period)
+async function findStoredTokens(id: string): Promise<{ hash: string; stored: StoredToken }[]> {
+  const all = await getRedis().hgetall(TOKENS_KEY);
+  if (!all) return [];
+  return Object.entries(all)
+    .map(([hash, raw]) => ({ hash, stored: parseStoredToken(raw) }))
+    .filter(({ stored }) => stored.id === id);
+}
+
+// Plaintext entry with the given id, with its token
+async function findLegacyToken(id: string): Promise<{ token: string; data: TokenData } | null> {
+  const all = await getRedis().hgetall(LEGACY_TOKENS_KEY);
+  if (!all) return null;
+  for (const [token, raw] of Object.entries(all)) {
+    if (legacyTokenId(token) === id) return { token, data: parseTokenData(raw) };
+  }
+  return null;
+}
+
+// Id and data of a bearer token, expired or not
+async function lookupToken(token: string): Promise<{ id: string; data: TokenData } | null> {
+  const redis = getRedis();
+  if (isTokenHashingConfigured()) {
+    const raw = await redis.hget(TOKENS_KEY, hashToken(token));
+    if (raw) {
+      const stored = parseStoredToken(raw);
+      return { id: stored.id, data: stored };
+    }
+  }
+  // Not migrated yet
+  const legacy = await redis.hget(LEGACY_TOKENS_KEY, token);
+  return legacy ? { id: legacyTokenId(token), data: parseTokenData(legacy) } : null;
+}
+
+function getBearerToken(request: NextRequest): string | null {
   const authHeader = request.headers.get("authorization");
   if (!authHeader) return null;
+  return authHeader.replace("Bearer ", "") || null;
+}
 
-  const token = authHeader.replace("Bearer ", "");
-  if (!token) return null;
+function getEnvAdminAuth(): AuthResult {
+  return {
+    role: "admin",
+    scopes: [...TOKEN_SCOPES],
+    tokenId: "env",
+    label: "API_AUTH_TOKEN",
+    ...getDefaultLimits(),
+  };
+}
 
+function toAuthResult(tokenId: string, data: TokenData): AuthResult | null {
+  if (data.role !== "custom" && !isPresetRole(data.role)) return null;
   const defaults = getDefaultLimits();
+  return {
+    role: data.role,
+    scopes: getTokenScopes(data),
+    tokenId,
+    label: data.label,
+    maxTxSats: data.maxTxSats ?? defaults.maxTxSats,
+    dailyBudgetSats: data.dailyBudgetSats ?? defaults.dailyBudgetSats,
+    hourlyBudgetSats: data.hourlyBudgetSats,
+    rolling24hBudgetSats: data.rolling24hBudgetSats,
+    weeklyBudgetSats: data.weeklyBudgetSats,
+    monthlyBudgetSats: data.monthlyBudgetSats,
+    destinations: data.destinations,
+    approvalThresholdSats: data.approvalThresholdSats,
+    sparkTokenLimits: data.sparkTokenLimits,
+    rateLimits: data.rateLimits,
+  };
+}
+
+// Fire-and-forget, throttled by a short-lived NX key so most requests cost
+// one extra Redis call. lastUsedAt is accurate to USAGE_WRITE_INTERVAL.
+function recordTokenUse(id: string, request: NextRequest): void {
+  const redis = getRedis();
+  const usage: TokenUsage = {
+    lastUsedAt: new Date().toISOString(),
+    lastUsedRoute: `${request.method} ${request.nextUrl.pathname}`,
+  };
+  redis
+    .set(`${USAGE_THROTTLE_PREFIX}:${id}`, "1", { nx: true, ex: USAGE_WRITE_INTERVAL })
+    .then((set) => (set !== null ? redis.hset(USAGE_KEY, { [id]: JSON.stringify(usage) }) : undefined))
+    .catch(() => {});
+}
+
+// Why verifyAuth rejected each request, for authFailureResponse
+const authFailures = new WeakMap<NextRequest, AuthFailure>();
+
+const INVALID_TOKEN: AuthFailure = { error: "Invalid or missing authorization token", code: "UNAUTHORIZED" };
+
+// The platform sets x-real-ip (Vercel overwrites any client value). Behind
+// another proxy, only the right-most X-Forwarded-For hop was added by it —
+// the rest came from the client and can be anything.
+function getClientIp(request: NextRequest): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",");
+  return forwarded?.[forwarded.length - 1].trim() || "unknown";
+}
 
-  // Check hardcoded admin token first (fallback — always works even if Redis is down)
+function rateLimited(result: Exclude<RateLimitResult, { allowed: true }>, what: string): AuthFailure {
+  return {
+    error: `Too many ${what} — limit is ${result.limit}. Retry in ${result.retryAfterSeconds}s`,
+    code: "RATE_LIMITED",
+    retryAfterSeconds: result.retryAfterSeconds,
+  };
+}
+
+function reject(request: NextRequest, failure: AuthFailure): null {
+  authFailures.set(request, failure);
+  return null;
+}
+
+export async function verifyAuth(
+  request: NextRequest
+): Promise<AuthResult | null> {
+  const token = getBearerToken(request);
+  if (!token) return reject(request, INVALID_TOKEN);
+
+  let auth: AuthResult | null = null;
+
+  // Check hardcoded admin token first (fallback — always works even if Redis is
+  // down, and even from an IP that is blocked for failed attempts, so a shared
+  // IP can't lock the operator out)
   const envToken = process.env.API_AUTH_TOKEN;
   if (envToken && safeCompare(token, envToken)) {
-    return {
-      role: "admin",
-      tokenId: "env",
-      ...defaults,
-    };
-  }
+    auth = getEnvAdminAuth();
+  } else {
+    // An IP with too many failed attempts is refused before its token is looked up
+    const ip = getClientIp(request);
+    const ipLimit = await checkAuthFailureLimit(ip);
+    if (!ipLimit.allowed) return reject(request, rateLimited(ipLimit, "failed authentication attempts"));
 
-  // Check Redis-stored tokens
-  try {
-    const raw = await getRedis().hget(TOKENS_KEY, token);
-    if (raw) {
-      const data: TokenData =
-        typeof raw === "string" ? JSON.parse(raw) : (raw as TokenData);
-      const validRoles: TokenRole[] = ["admin", "invoice", "pay-only", "read-only"];
-      if (validRoles.includes(data.role)) {
-        return {
-          role: data.role,
-          tokenId: token.slice(0, 16), // Use prefix for budget key (shorter, safer)
-          maxTxSats: data.maxTxSats ?? defaults.maxTxSats,
-          dailyBudgetSats: data.dailyBudgetSats ?? defaults.dailyBudgetSats,
-        };
+    // Check Redis-stored tokens
+    try {
+      const found = await lookupToken(token);
+      if (found && isExpired(found.data)) {
+        return reject(request, { error: `Token expired at ${found.data.expiresAt}`, code: "TOKEN_EXPIRED" });
+      }
+      if (found) {
+        recordTokenUse(found.id, request);
+        auth = toAuthResult(found.id, found.data);
       }
+    } catch {
+      // Redis failure — fall through to rejection
+      return reject(request, INVALID_TOKEN);
+    }
+    if (!auth) {
+      await recordAuthFailure(ip);
+      return reject(request, INVALID_TOKEN);
     }
-  } catch {
-    // Redis failure — fall through to rejection
   }
 
-  return null;
+  const routeClass = getRateLimitClass(request.method, request.nextUrl.pathname);
+  const limit = await checkRateLimit(auth.tokenId, auth.rateLimits, routeClass);
+  if (!limit.allowed) return reject(request, rateLimited(limit, `${routeClass} requests per minute`));
+
+  return auth;
+}
+
+// The 401 (or 429, with Retry-After) for a request verifyAuth rejected
+export function authFailureResponse(request: NextRequest): NextResponse {
+  const { error, code, retryAfterSeconds } = authFailures.get(request) ?? INVALID_TOKEN;
+  if (retryAfterSeconds !== undefined) {
+    return NextResponse.json(
+      { success: false, error, code, details: { retryAfterSeconds } },
+      { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+  }
+  return NextResponse.json({ success: false, error, code }, { status: 401 });
+}
+
+// Scheduled jobs authenticate with CRON_SECRET instead of an API token.
+// Vercel Cron sends it as "Authorization: Bearer <CRON_SECRET>".
+export function verifyCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader) return false;
+  return safeCompare(authHeader.replace("Bearer ", ""), secret);
+}
+
+// Resolve a token's current auth from its tokenId, without the bearer token
+// (used to run queued payments under the original token's current limits).
+// Returns null if the token has since been revoked or has expired.
+export async function getAuthByTokenId(tokenId: string): Promise<AuthResult | null> {
+  if (tokenId === "env") {
+    return process.env.API_AUTH_TOKEN ? getEnvAdminAuth() : null;
+  }
+  const live = (await findStoredTokens(tokenId)).find(({ stored }) => !isExpired(stored));
+  if (live) return toAuthResult(tokenId, live.stored);
+  const legacy = await findLegacyToken(tokenId);
+  return legacy && !isExpired(legacy.data) ? toAuthResult(tokenId, legacy.data) : null;
 }
 
-export interface CreateTokenOptions {
+// Validate expiresAt / expiresInSeconds from an API request body
+export function parseTokenExpiry(body: {
+  expiresAt?: unknown;
+  expiresInSeconds?: unknown;
+}): { expiresAt?: string } | { error: string } {
+  const { expiresAt, expiresInSeconds } = body;
+  if (expiresAt !== undefined && expiresInSeconds !== undefined) {
+    return { error: "Pass expiresAt or expiresInSeconds, not both" };
+  }
+  if (expiresInSeconds !== undefined) {
+    if (typeof expiresInSeconds !== "number" || !Number.isInteger(expiresInSeconds) || expiresInSeconds <= 0) {
+      return { error: "expiresInSeconds must be a positive integer" };
+    }
+    return { expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString() };
+  }
+  if (expiresAt !== undefined) {
+    const time = typeof expiresAt === "string" ? Date.parse(expiresAt) : NaN;
+    if (Number.isNaN(time)) {
+      return { error: "expiresAt must be an ISO 8601 date" };
+    }
+    if (time <= Date.now()) {
+      return { error: "expiresAt must be in the future" };
+    }
+    return { expiresAt: new Date(time).toISOString() };
+  }
+  return {};
+}
+
+export interface CreateTokenOptions extends TokenLimits {
   role: TokenRole;
+  scopes?: TokenScope[]; // Required when role is "custom"
   label: string;
-  maxTxSats?: number;
-  dailyBudgetSats?: number;
+  expiresAt?: string;
 }
 
-export async function createToken(options: CreateTokenOptions): Promise<string> {
+// Store a new credential for `id` and return the bearer token. Requires TOKEN_HASH_SECRET.
+async function storeCredential(id: string, data: TokenData): Promise<string> {
   const token = randomBytes(30).toString("base64");
-  const data: TokenData = {
+  const stored: StoredToken = { id, ...data };
+  await getRedis().hset(TOKENS_KEY, {
+    [hashToken(token)]: JSON.stringify(stored),
+  });
+  return token;
+}
+
+// Returns the bearer token (shown once, never stored) and its public id.
+// Requires TOKEN_HASH_SECRET.
+export async function createToken(options: CreateTokenOptions): Promise<{ id: string; token: string }> {
+  const id = randomBytes(8).toString("hex");
+  const token = await storeCredential(id, {
     role: options.role,
+    ...(options.scopes ? { scopes: options.scopes } : {}),
     label: options.label,
     createdAt: new Date().toISOString(),
-  };
-  if (options.maxTxSats !== undefined) {
-    data.maxTxSats = options.maxTxSats;
+    ...pickLimits(options),
+    ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+  });
+  return { id, token };
+}
+
+// Issue a replacement credential with the same id, role, scopes, label and limits.
+// The old credential keeps working until the grace period ends (or its own
+// expiry, if sooner). Returns null if the id has no live, unrotated credential.
+export async function rotateToken(
+  id: string,
+  options: { gracePeriodSeconds: number; expiresAt?: string }
+): Promise<{ token: string; expiresAt?: string; previousExpiresAt: string } | null> {
+  const redis = getRedis();
+  const current = (await findStoredTokens(id)).filter(
+    ({ stored }) => !stored.rotatedAt && !isExpired(stored)
+  );
+  const legacy = current.length === 0 ? await findLegacyToken(id) : null;
+  const base = current[0]?.stored ?? (legacy && !legacy.data.rotatedAt && !isExpired(legacy.data) ? legacy.data : null);
+  if (!base) return null;
+
+  // New credential first, so there's no moment where neither works
+  const token = await storeCredential(id, {
+    role: base.role,
+    ...(base.scopes ? { scopes: base.scopes } : {}),
+    label: base.label,
+    createdAt: base.createdAt,
+    ...pickLimits(base),
+    ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+  });
+
+  const now = Date.now();
+  const graceEnd = now + options.gracePeriodSeconds * 1000;
+  const previousExpiresAt = new Date(
+    base.expiresAt ? Math.min(graceEnd, new Date(base.expiresAt).getTime()) : graceEnd
+  ).toISOString();
+  const rotated = { rotatedAt: new Date(now).toISOString(), expiresAt: previousExpiresAt };
+
+  for (const { hash, stored } of current) {
+    await redis.hset(TOKENS_KEY, { [hash]: JSON.stringify({ ...stored, ...rotated }) });
   }
-  if (options.dailyBudgetSats !== undefined) {
-    data.dailyBudgetSats = options.dailyBudgetSats;
+  if (legacy) {
+    await redis.hset(LEGACY_TOKENS_KEY, { [legacy.token]: JSON.stringify({ ...legacy.data, ...rotated }) });
   }
-  await getRedis().hset(TOKENS_KEY, {
-    [token]: JSON.stringify(data),
-  });
-  return token;
+
+  return { token, expiresAt: options.expiresAt, previousExpiresAt };
 }
 
-export interface TokenInfo {
-  tokenPrefix: string;
+// What PATCH /api/tokens can change. null clears a limit (back to the env
+// default or "no limit") or removes the expiry. Setting a preset role clears
+// scopes; setting scopes makes the token "custom".
+export type TokenUpdate = {
+  role?: TokenRole;
+  scopes?: TokenScope[] | null;
+  label?: string;
+  expiresAt?: string | null;
+} & { [K in keyof TokenLimits]?: TokenLimits[K] | null };
+
+// Role, scopes, label, limits and expiry of a token, as recorded in the audit trail
+export interface TokenSettings extends TokenLimits {
+  role: TokenRole;
+  scopes?: TokenScope[];
+  label: string;
+  expiresAt?: string;
+}
+
+function toSettings(data: TokenData): TokenSettings {
+  return {
+    role: data.role,
+    ...(data.scopes ? { scopes: data.scopes } : {}),
+    label: data.label,
+    ...pickLimits(data),
+    ...(data.expiresAt ? { expiresAt: data.expiresAt } : {}),
+  };
+}
+
+// Lua script: write a token's edited credentials and its audit entry in one
+// step, unless a credential changed since it was read (a concurrent edit or
+// rotation). KEYS: the hash holding each credential, then the audit list.
+// ARGV: audit entry ("" = none), max audit entries, then per credential:
+// field, JSON as read, new JSON. Returns 1 if written, 0 on a conflict.
+const UPDATE_TOKEN_SCRIPT = `
+local count = #KEYS - 1
+for i = 1, count do
+  local base = 3 * i
+  if redis.call("HGET", KEYS[i], ARGV[base]) ~= ARGV[base + 1] then
+    return 0
+  end
+end
+for i = 1, count do
+  local base = 3 * i
+  redis.call("HSET", KEYS[i], ARGV[base], ARGV[base + 2])
+end
+if ARGV[1] ~= "" then
+  redis.call("LPUSH", KEYS[count + 1], ARGV[1])
+  redis.call("LTRIM", KEYS[count + 1], 0, tonumber(ARGV[2]) - 1)
+end
+return 1
+`;
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export type TokenUpdateResult =
+  | { before: TokenSettings; after: TokenSettings; changes: TokenAuditEntry["changes"]; audit?: TokenAuditEntry }
+  | { error: string };
+
+// Edit a token in place, on every credential with this id, and record it in
+// the audit trail, atomically. A credential rotated out keeps its own expiry
+// (the end of its grace period). On a conflict the edit is re-applied to
+// fresh data. Returns null if no credential has this id.
+export async function updateToken(
+  id: string,
+  update: TokenUpdate,
+  admin: AuthResult
+): Promise<TokenUpdateResult | null> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const result = await tryUpdateToken(id, update, admin);
+    if (result !== "conflict") return result;
+  }
+  return { error: "The token kept changing during the update; try again" };
+}
+
+async function tryUpdateToken(
+  id: string,
+  update: TokenUpdate,
+  admin: AuthResult
+): Promise<Exclude<TokenUpdateResult, { error: string }> | null | "conflict"> {
+  const credentials = await findStoredTokens(id);
+  const legacy = await findLegacyToken(id);
+  const current =
+    credentials.find(({ stored }) => !stored.rotatedAt)?.stored ?? credentials[0]?.stored ?? legacy?.data;
+  if (!current) return null;
+
+  const apply = <T extends TokenData>(data: T): T => {
+    const next = { ...data } as Record<string, unknown>;
+    for (const [field, value] of Object.entries(update)) {
+      if (value === undefined) continue;
+      if (field === "expiresAt" && data.rotatedAt) continue;
+      if (value === null) delete next[field];
+      else next[field] = value;
+    }
+    return next as T;
+  };
+
+  // Values were written with JSON.stringify, so re-serializing what was read
+  // reproduces the stored string for the comparison
+  const writes = [
+    ...credentials.map(({ hash, stored }) => ({ key: TOKENS_KEY, field: hash, data: stored })),
+    ...(legacy ? [{ key: LEGACY_TOKENS_KEY, field: legacy.token, data: legacy.data }] : []),
+  ];
+
+  const before = toSettings(current);
+  const after = toSettings(apply(current));
+  const changes = diffTokenSettings(before, after);
+  const audit = Object.keys(changes).length > 0 ? newTokenAuditEntry(id, changes, admin) : undefined;
+
+  const written = (await getRedis().eval(
+    UPDATE_TOKEN_SCRIPT,
+    [...writes.map((w) => w.key), TOKEN_AUDIT_KEY],
+    [
+      audit ? JSON.stringify(audit) : "",
+      MAX_TOKEN_AUDIT_ENTRIES,
+      ...writes.flatMap((w) => [w.field, JSON.stringify(w.data), JSON.stringify(apply(w.data))]),
+    ]
+  )) as number;
+  if (written !== 1) return "conflict";
+
+  return { before, after, changes, audit };
+}
+
+export interface TokenInfo extends TokenLimits {
+  id: string;
   label: string;
   role: TokenRole;
+  scopes: TokenScope[]; // Effective scopes, from the preset or the token's own list
   createdAt: string;
-  maxTxSats?: number;
-  dailyBudgetSats?: number;
+  expiresAt?: string;
+  expired?: boolean;
+  rotatedAt?: string; // This credential was replaced and stops at expiresAt
+  lastUsedAt?: string; // Per token id, accurate to a minute
+  lastUsedRoute?: string;
+  legacy?: boolean; // Still stored in plaintext — run the migration
 }
 
+// One entry per credential. Rotated-out credentials are dropped once their
+// grace period is over.
 export async function listTokens(): Promise<TokenInfo[]> {
-  const all = await getRedis().hgetall(TOKENS_KEY);
-  if (!all) return [];
-  return Object.entries(all).map(([token, raw]) => {
-    const data: TokenData =
-      typeof raw === "string" ? JSON.parse(raw) : (raw as TokenData);
+  const redis = getRedis();
+  const [hashed, legacy, usage] = await Promise.all([
+    redis.hgetall(TOKENS_KEY),
+    redis.hgetall(LEGACY_TOKENS_KEY),
+    redis.hgetall(USAGE_KEY),
+  ]);
+
+  const toInfo = (id: string, data: TokenData, isLegacy: boolean): TokenInfo => {
+    const used = usage?.[id] ? parseUsage(usage[id]) : undefined;
     return {
-      tokenPrefix: token.slice(0, 8) + "...",
+      id,
       label: data.label,
       role: data.role,
+      scopes: getTokenScopes(data),
       createdAt: data.createdAt,
-      maxTxSats: data.maxTxSats,
-      dailyBudgetSats: data.dailyBudgetSats,
+      ...pickLimits(data),
+      ...(data.expiresAt ? { expiresAt: data.expiresAt, expired: isExpired(data) } : {}),
+      ...(data.rotatedAt ? { rotatedAt: data.rotatedAt } : {}),
+      ...(used ?? {}),
+      ...(isLegacy ? { legacy: true } : {}),
     };
-  });
+  };
+
+  const tokens: TokenInfo[] = [];
+  for (const [hash, raw] of Object.entries(hashed ?? {})) {
+    const stored = parseStoredToken(raw);
+    if (stored.rotatedAt && isExpired(stored)) {
+      await redis.hdel(TOKENS_KEY, hash);
+      continue;
+    }
+    tokens.push(toInfo(stored.id, stored, false));
+  }
+  for (const [token, raw] of Object.entries(legacy ?? {})) {
+    const data = parseTokenData(raw);
+    if (data.rotatedAt && isExpired(data)) {
+      await redis.hdel(LEGACY_TOKENS_KEY, token);
+      continue;
+    }
+    tokens.push(toInfo(legacyTokenId(token), data, true));
+  }
+  return tokens;
 }
 
-export async function revokeToken(token: string): Promise<boolean> {
-  const removed = await getRedis().hdel(TOKENS_KEY, token);
+// Revokes every credential with this id, including one still in its rotation grace period
+export async function revokeToken(id: string): Promise<boolean> {
+  const redis = getRedis();
+  let removed = 0;
+  for (const { hash } of await findStoredTokens(id)) {
+    removed += await redis.hdel(TOKENS_KEY, hash);
+  }
+  const legacy = await findLegacyToken(id);
+  if (legacy) {
+    removed += await redis.hdel(LEGACY_TOKENS_KEY, legacy.token);
+  }
+  if (removed > 0) {
+    await redis.hdel(USAGE_KEY, id);
+  }
   return removed > 0;
 }
 
+// Id of a bearer token, for callers that only have the token itself
+export async function getTokenId(token: string): Promise<string | null> {
+  const found = await lookupToken(token);
+  return found?.id ?? null;
+}
+
+// One-time move of plaintext tokens to hashed storage. Each token keeps its
+// id and keeps working throughout: the hashed entry is written before the
+// plaintext one is deleted. Safe to run again.
+export async function migrateLegacyTokens(): Promise<{ migrated: number; ids: string[] }> {
+  const redis = getRedis();
+  const legacy = await redis.hgetall(LEGACY_TOKENS_KEY);
+  const ids: string[] = [];
+  for (const [token, raw] of Object.entries(legacy ?? {})) {
+    const stored: StoredToken = { ...parseTokenData(raw), id: legacyTokenId(token) };
+    await redis.hsetnx(TOKENS_KEY, hashToken(token), JSON.stringify(stored));
+    await redis.hdel(LEGACY_TOKENS_KEY, token);
+    ids.push(stored.id);
+  }
+  return { migrated: ids.length, ids };
+}
+
 // Permission helpers
-// Roles that can send payments (pay invoices, transfer, L402)
-export function canPay(role: TokenRole): boolean {
-  return role === "admin" || role === "pay-only";
+const READ_SCOPES: TokenScope[] = [
+  "balance:read",
+  "transactions:read",
+  "logs:read",
+  "fees:read",
+  "budget:read",
+  "invoice:read",
+  "deposits:read",
+  "approvals:read",
+  "nwc:connect",
+];
+
+// The original fixed roles, as scope bundles. Tokens created before scopes
+// existed keep exactly the permissions they had.
+export const ROLE_SCOPES: Record<PresetRole, readonly TokenScope[]> = {
+  admin: TOKEN_SCOPES,
+  invoice: [...READ_SCOPES, "invoice:create"],
+  "pay-only": [...READ_SCOPES, "pay:lightning", "pay:spark", "pay:onchain", "l402:fetch"],
+  "read-only": READ_SCOPES,
+};
+
+export const PRESET_ROLES = Object.keys(ROLE_SCOPES) as PresetRole[];
+
+export function isPresetRole(role: unknown): role is PresetRole {
+  return PRESET_ROLES.includes(role as PresetRole);
+}
+
+export function getTokenScopes(data: { role: TokenRole; scopes?: TokenScope[] }): TokenScope[] {
+  if (data.role === "custom") return data.scopes ?? [];
+  return [...(ROLE_SCOPES[data.role] ?? [])];
 }
 
-// Roles that can create invoices
-export function canCreateInvoice(role: TokenRole): boolean {
-  return role === "admin" || role === "invoice";
+export function hasScope(auth: AuthResult, scope: TokenScope): boolean {
+  return auth.scopes.includes(scope);
 }
 
-// Roles that can manage tokens
-export function canManageTokens(role: TokenRole): boolean {
-  return role === "admin";
+export function missingScopeMessage(scope: TokenScope): string {
+  return `This token is missing the ${scope} scope`;
 }
 
-// All roles can read (balance, info, transactions, logs, etc.)
+// Body of the 403 for a token without the scope a route needs
+export function getScopeFailure(scope: TokenScope): ScopeFailure {
+  return {
+    error: missingScopeMessage(scope),
+    code: "INSUFFICIENT_SCOPE",
+    details: { requiredScope: scope },
+  };
+}
+
+// Validate a scope list from an API request body. Returns the scopes
+// de-duplicated, in TOKEN_SCOPES order.
+export function parseScopes(input: unknown): { scopes: TokenScope[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "scopes must be a non-empty array" };
+  }
+  for (const scope of input) {
+    if (!TOKEN_SCOPES.includes(scope)) {
+      return { error: `Unknown scope: ${String(scope)}` };
+    }
+  }
+  return { scopes: TOKEN_SCOPES.filter((scope) => input.includes(scope)) };
+}
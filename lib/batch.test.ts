@@ -0,0 +1,183 @@
+import { randomBytes } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SparkWallet } from "@buildonspark/spark-sdk";
+import { handleBatch } from "./batch";
+import type { AuthResult } from "./auth";
+import { makeInvoice } from "./test-invoices";
+
+vi.mock("./log", () => ({ logEvent: vi.fn() }));
+
+// In-memory stand-in for the payment-hash and approval calls. eval (the budget
+// scripts) is mocked: tests set its replies and check what it was given.
+const store = vi.hoisted(() => new Map<string, string>());
+const redis = vi.hoisted(() => ({
+  set: vi.fn(async (key: string, value: string, options: { nx?: boolean }) => {
+    if (options.nx && store.has(key)) return null;
+    store.set(key, value);
+    return "OK";
+  }),
+  get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+  del: vi.fn(async (key: string) => Number(store.delete(key))),
+  hset: vi.fn(async () => 1),
+  eval: vi.fn(),
+}));
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn(function () {
+    return redis;
+  }),
+}));
+
+const auth: AuthResult = {
+  role: "custom",
+  scopes: ["pay:spark", "pay:lightning"],
+  tokenId: "t1",
+  label: "payouts",
+  maxTxSats: 1000,
+  dailyBudgetSats: 100_000,
+  destinations: { sparkAddresses: { deny: ["sp1blocked"] } },
+};
+
+const wallet = {
+  transfer: vi.fn(),
+  payLightningInvoice: vi.fn(),
+  getLightningSendFeeEstimate: vi.fn(),
+};
+
+const transfer = (amountSats: number, receiverSparkAddress = "sp1alice") => ({
+  type: "transfer",
+  receiverSparkAddress,
+  amountSats,
+});
+const lightning = (invoice: string) => ({ type: "lightning", invoice, maxFeeSats: 20 });
+
+const batch = (items: unknown[], tokenAuth: AuthResult = auth) =>
+  handleBatch(wallet as unknown as SparkWallet, tokenAuth, { items });
+
+beforeEach(() => {
+  store.clear();
+  vi.clearAllMocks();
+  redis.eval.mockReset();
+  wallet.transfer.mockImplementation(async ({ amountSats }) => ({ id: `transfer-${amountSats}`, status: "COMPLETED" }));
+  wallet.payLightningInvoice.mockResolvedValue({
+    id: "payment-1",
+    status: "LIGHTNING_PAYMENT_SUCCEEDED",
+    fee: { originalValue: 3, originalUnit: "SATOSHI" },
+  });
+  wallet.getLightningSendFeeEstimate.mockResolvedValue(10);
+});
+
+describe("handleBatch validation", () => {
+  it("needs between 1 and 100 items", async () => {
+    expect((await (await batch([])).json()).error).toBe("items must be a non-empty array");
+    const tooMany = await batch(Array(101).fill(transfer(1)));
+    expect((await tooMany.json()).error).toBe("A batch can have at most 100 items");
+  });
+
+  it("lists every rejected item and sends nothing", async () => {
+    const response = await batch([
+      transfer(500),
+      { type: "cash" },
+      transfer(1001),
+      transfer(500, "sp1blocked"),
+    ]);
+    expect(response.status).toBe(400); // From the first rejected item
+    const body = await response.json();
+    expect(body.error).toBe("3 of 4 batch items were rejected; nothing was sent");
+    expect(body.details.errors).toEqual([
+      { index: 1, error: "type must be transfer, spark_invoice or lightning", code: "BAD_REQUEST" },
+      {
+        index: 2,
+        error: "Transaction amount 1001 exceeds per-transaction limit of 1000 sats",
+        code: "TRANSACTION_TOO_LARGE",
+      },
+      { index: 3, error: "Spark address sp1blocked is on this token's deny list", code: "DESTINATION_NOT_ALLOWED" },
+    ]);
+    expect(wallet.transfer).not.toHaveBeenCalled();
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+
+  it("applies maxTxSats to each Lightning item with its estimated fee", async () => {
+    const response = await batch([lightning(makeInvoice(995_000))]);
+    expect(response.status).toBe(403);
+    expect((await response.json()).details.errors[0]).toMatchObject({
+      error: "Transaction amount 1005 exceeds per-transaction limit of 1000 sats",
+      code: "TRANSACTION_TOO_LARGE",
+    });
+  });
+
+  it("checks each item's scope", async () => {
+    const response = await batch([transfer(500), lightning(makeInvoice(100_000))], {
+      ...auth,
+      scopes: ["pay:spark"],
+    });
+    expect(response.status).toBe(403);
+    expect((await response.json()).details.errors).toEqual([
+      expect.objectContaining({ index: 1, code: "INSUFFICIENT_SCOPE" }),
+    ]);
+  });
+
+  it("refuses an invoice listed twice", async () => {
+    const invoice = makeInvoice(100_000);
+    const body = await (await batch([lightning(invoice), lightning(invoice)])).json();
+    expect(body.details.errors).toEqual([
+      { index: 1, error: "Invoice appears more than once in this batch", code: "BAD_REQUEST" },
+    ]);
+  });
+
+  it("refuses an invoice already paid, without reserving budget", async () => {
+    const paymentHash = randomBytes(32).toString("hex");
+    store.set(`spark:paid_invoice:${paymentHash}`, JSON.stringify({ paymentHash, status: "paid", paidAt: "then" }));
+    const first = makeInvoice(100_000);
+
+    const response = await batch([lightning(first), lightning(makeInvoice(200_000, { paymentHash }))]);
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.code).toBe("ALREADY_PAID");
+    expect(body.details.errors).toEqual([{ index: 1, error: "Invoice was already paid at then", code: "ALREADY_PAID" }]);
+    // The first item's claim is given back
+    expect(store.size).toBe(1);
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+});
+
+describe("handleBatch reservation", () => {
+  // 600 + 400 + 500 + 10 estimated fee
+  const items = () => [transfer(600), transfer(400), lightning(makeInvoice(500_000))];
+
+  it("reserves the fee-inclusive total in one step, with maxTxSats lifted to it", async () => {
+    redis.eval.mockResolvedValueOnce([1, 1510, 0, 0]).mockResolvedValueOnce(1503);
+    const response = await batch(items());
+
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.eval.mock.calls[0][2].slice(0, 2)).toEqual([1510, 1510]);
+    // The 3 sat fee paid leaves 7 of the estimate to give back
+    expect(redis.eval.mock.calls[1][2][0]).toBe(-7);
+    expect((await response.json()).data).toMatchObject({
+      sent: 3,
+      failed: 0,
+      amountSats: 1500,
+      feeSats: 3,
+      reservedSats: 1510,
+      budgetAdjustmentSats: -7,
+    });
+  });
+
+  it("gives back the budget of failed items and releases their payment hashes", async () => {
+    wallet.transfer.mockRejectedValueOnce(new Error("Transfer failed")); // The 600 sat item
+    wallet.payLightningInvoice.mockRejectedValue(new Error("No route"));
+    redis.eval.mockResolvedValueOnce([1, 1510, 0, 0]).mockResolvedValueOnce(400);
+
+    const body = await (await batch(items())).json();
+    expect(body.data).toMatchObject({ sent: 1, failed: 2, amountSats: 400, budgetAdjustmentSats: -1110 });
+    expect(body.data.items.map((item: { status: string }) => item.status)).toEqual(["failed", "sent", "failed"]);
+    expect(redis.eval.mock.calls[1][2][0]).toBe(-1110);
+    expect(store.size).toBe(0);
+  });
+
+  it("applies the approval threshold to the fee-inclusive total", async () => {
+    const response = await batch(items(), { ...auth, approvalThresholdSats: 1505 });
+    expect((await response.json()).data).toMatchObject({ status: "awaiting_approval", amountSats: 1510 });
+    expect(redis.eval).not.toHaveBeenCalled();
+    expect(wallet.transfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,436 @@
+import { randomBytes } from "crypto";
+import { SparkWallet, type NetworkType, type SparkAddressFormat } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { decode } from "light-bolt11-decoder";
+import { successResponse, errorResponse, getLightningFeeSats } from "./spark";
+import { reserveSpend, adjustSpend, checkMaxTx } from "./budget";
+import { logEvent } from "./log";
+import {
+  claimPaymentHash,
+  markPaymentHashPaid,
+  releasePaymentHash,
+  describePaidInvoice,
+} from "./paid-invoices";
+import { hasScope, missingScopeMessage, type AuthResult } from "./auth";
+import { getInvoicePayee } from "./bolt11";
+import { checkDestination } from "./destinations";
+import { checkApproval, type SpendOptions } from "./approvals";
+import { decodeSparkInvoice } from "./spark-invoices";
+import type { ErrorCode } from "./types";
+
+// Batch payouts: many transfers and invoices on one wallet instance. Every
+// item is validated and the whole total reserved before anything is sent;
+// the budget for items that fail is given back afterwards.
+
+const MAX_BATCH_ITEMS = 100;
+const BATCH_CONCURRENCY = 4;
+
+// InvoiceStatus values from querySparkInvoices
+const SPARK_INVOICE_STATUS_PENDING = 1;
+const SPARK_INVOICE_STATUS_FINALIZED = 2;
+
+export type BatchItemType = "transfer" | "spark_invoice" | "lightning";
+
+const BATCH_ITEM_TYPES: readonly string[] = ["transfer", "spark_invoice", "lightning"];
+
+interface PreparedItem {
+  index: number;
+  type: BatchItemType;
+  amountSats: number; // What the receiver gets
+  reservedSats: number; // amountSats + estimated fee
+  destination: string; // Spark address, or invoice prefix for logs
+  invoice?: string;
+  amountlessSats?: number; // Set for invoices without an amount
+  maxFeeSats?: number;
+  paymentHash?: string;
+  memo?: string;
+}
+
+interface ItemError {
+  index: number;
+  error: string;
+  code: ErrorCode;
+}
+
+export interface BatchItemResult {
+  index: number;
+  type: BatchItemType;
+  status: "sent" | "failed";
+  amountSats: number;
+  feeSats?: number;
+  id?: string; // Transfer or Lightning payment id
+  paymentStatus?: string;
+  error?: string;
+}
+
+async function prepareItem(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  item: any,
+  index: number,
+  network: NetworkType
+): Promise<PreparedItem | ItemError> {
+  const fail = (error: string, code: ErrorCode = "BAD_REQUEST"): ItemError => ({ index, error, code });
+
+  if (!item || typeof item !== "object" || !BATCH_ITEM_TYPES.includes(item.type)) {
+    return fail("type must be transfer, spark_invoice or lightning");
+  }
+  const scope = item.type === "lightning" ? "pay:lightning" : "pay:spark";
+  if (!hasScope(auth, scope)) return fail(missingScopeMessage(scope), "INSUFFICIENT_SCOPE");
+  const { amountSats } = item;
+  if (
+    amountSats !== undefined &&
+    (typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0)
+  ) {
+    return fail("amountSats must be a positive integer");
+  }
+
+  if (item.type === "transfer") {
+    const { receiverSparkAddress } = item;
+    if (!receiverSparkAddress || typeof receiverSparkAddress !== "string") {
+      return fail("receiverSparkAddress is required");
+    }
+    if (amountSats === undefined) return fail("amountSats is required");
+    const destination = checkDestination(auth.destinations, "sparkAddresses", receiverSparkAddress);
+    if (!destination.allowed) return fail(destination.reason, "DESTINATION_NOT_ALLOWED");
+    return {
+      index,
+      type: "transfer",
+      amountSats,
+      reservedSats: amountSats,
+      destination: receiverSparkAddress,
+    };
+  }
+
+  const { invoice } = item;
+  if (!invoice || typeof invoice !== "string") return fail("invoice is required");
+
+  if (item.type === "spark_invoice") {
+    const decoded = decodeSparkInvoice(invoice, network);
+    if ("error" in decoded) return fail(decoded.error);
+    if (decoded.amountSats && amountSats !== undefined) {
+      return fail("Invoice already has an amount — amountSats is only allowed for invoices without one");
+    }
+    if (!decoded.amountSats && amountSats === undefined) {
+      return fail("Invoice has no amount — pass amountSats to pay it");
+    }
+    if (decoded.expiresAt && Date.now() > new Date(decoded.expiresAt).getTime()) {
+      return fail(`Invoice expired at ${decoded.expiresAt}`, "INVOICE_EXPIRED");
+    }
+    if (decoded.senderPublicKey && decoded.senderPublicKey !== (await wallet.getIdentityPublicKey())) {
+      return fail("Invoice can only be paid by a different sender");
+    }
+    const destination = checkDestination(auth.destinations, "sparkAddresses", decoded.receiverSparkAddress);
+    if (!destination.allowed) return fail(destination.reason, "DESTINATION_NOT_ALLOWED");
+
+    const payAmountSats = decoded.amountSats || amountSats;
+    return {
+      index,
+      type: "spark_invoice",
+      amountSats: payAmountSats,
+      reservedSats: payAmountSats,
+      destination: decoded.receiverSparkAddress,
+      invoice,
+      amountlessSats: decoded.amountSats ? undefined : amountSats,
+      memo: decoded.memo,
+    };
+  }
+
+  const { maxFeeSats } = item;
+  if (maxFeeSats === undefined || typeof maxFeeSats !== "number" || maxFeeSats <= 0) {
+    return fail("maxFeeSats must be a positive number");
+  }
+
+  let invoiceAmountSats: number;
+  let paymentHash: string;
+  let payee: string;
+  try {
+    const decoded = decode(invoice);
+    const amountSection = decoded.sections.find((s) => s.name === "amount");
+    if (!amountSection || !("value" in amountSection) || !amountSection.value) {
+      if (amountSats === undefined) {
+        return fail("Invoice has no amount — pass amountSats to pay an amountless invoice");
+      }
+      invoiceAmountSats = amountSats;
+    } else {
+      if (amountSats !== undefined) {
+        return fail("Invoice already has an amount — amountSats is only allowed for amountless invoices");
+      }
+      // BOLT11 amount is in millisatoshis
+      invoiceAmountSats = Math.ceil(Number(amountSection.value) / 1000);
+    }
+    const hashSection = decoded.sections.find((s) => s.name === "payment_hash");
+    if (!hashSection || !("value" in hashSection) || !hashSection.value) {
+      return fail("Invoice has no payment hash");
+    }
+    paymentHash = hashSection.value;
+    payee = getInvoicePayee(invoice);
+  } catch {
+    return fail("Failed to decode invoice");
+  }
+
+  const destination = checkDestination(auth.destinations, "lightningPayees", payee);
+  if (!destination.allowed) return fail(destination.reason, "DESTINATION_NOT_ALLOWED");
+
+  let feeEstimate = maxFeeSats;
+  try {
+    feeEstimate = await wallet.getLightningSendFeeEstimate({ encodedInvoice: invoice, amountSats });
+  } catch {
+    // Fall back to maxFeeSats if estimate fails
+  }
+
+  return {
+    index,
+    type: "lightning",
+    amountSats: invoiceAmountSats,
+    reservedSats: invoiceAmountSats + feeEstimate,
+    destination: invoice.slice(0, 30),
+    invoice,
+    amountlessSats: amountSats,
+    maxFeeSats,
+    paymentHash,
+  };
+}
+
+// Items already paid, or paid twice within the batch
+async function findAlreadyPaid(wallet: SparkWallet, items: PreparedItem[]): Promise<ItemError[]> {
+  const errors: ItemError[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (!item.invoice) continue;
+    if (seen.has(item.invoice)) {
+      errors.push({ index: item.index, error: "Invoice appears more than once in this batch", code: "BAD_REQUEST" });
+    }
+    seen.add(item.invoice);
+  }
+
+  const sparkInvoices = items.filter((item) => item.type === "spark_invoice");
+  if (sparkInvoices.length > 0) {
+    const { invoiceStatuses } = await wallet.querySparkInvoices(sparkInvoices.map((item) => item.invoice!));
+    for (const item of sparkInvoices) {
+      const status = invoiceStatuses.find((s) => s.invoice === item.invoice)?.status;
+      if (status === SPARK_INVOICE_STATUS_FINALIZED || status === SPARK_INVOICE_STATUS_PENDING) {
+        errors.push({ index: item.index, error: "This Spark invoice has already been paid", code: "ALREADY_PAID" });
+      }
+    }
+  }
+  return errors;
+}
+
+async function runItem(
+  wallet: SparkWallet,
+  item: PreparedItem,
+  batchId: string
+): Promise<BatchItemResult> {
+  const base = { index: item.index, type: item.type, amountSats: item.amountSats };
+  try {
+    if (item.type === "transfer") {
+      const transfer = await wallet.transfer({
+        receiverSparkAddress: item.destination,
+        amountSats: item.amountSats,
+      });
+      await logEvent({ action: "transfer_sent", success: true, amountSats: item.amountSats, batchId });
+      return { ...base, status: "sent", id: transfer.id, paymentStatus: transfer.status };
+    }
+
+    if (item.type === "spark_invoice") {
+      const result = await wallet.fulfillSparkInvoice([
+        {
+          invoice: item.invoice as SparkAddressFormat,
+          amount: item.amountlessSats !== undefined ? BigInt(item.amountlessSats) : undefined,
+        },
+      ]);
+      const transfer = result.satsTransactionSuccess[0]?.transferResponse;
+      if (!transfer) {
+        throw new Error(
+          result.satsTransactionErrors[0]?.error.message ??
+            result.invalidInvoices[0]?.error.message ??
+            "Spark invoice payment failed"
+        );
+      }
+      await logEvent({
+        action: "transfer_sent",
+        success: true,
+        amountSats: item.amountSats,
+        invoice: item.invoice!.slice(0, 30),
+        memo: item.memo,
+        batchId,
+      });
+      return { ...base, status: "sent", id: transfer.id, paymentStatus: transfer.status };
+    }
+
+    const payment = await wallet.payLightningInvoice({
+      invoice: item.invoice!,
+      maxFeeSats: item.maxFeeSats!,
+      amountSatsToSend: item.amountlessSats,
+    });
+    await markPaymentHashPaid(item.paymentHash!, { paymentId: payment.id, paymentStatus: payment.status });
+    const feeSats = getLightningFeeSats(payment);
+    await logEvent({
+      action: "payment_sent",
+      success: true,
+      amountSats: item.amountSats,
+      invoice: item.destination,
+      feeSats,
+      reservedSats: item.reservedSats,
+      batchId,
+    });
+    return { ...base, status: "sent", feeSats, id: payment.id, paymentStatus: payment.status };
+  } catch (err) {
+    const error = err instanceof Error ? err.message || "Payment failed" : "Payment failed";
+    if (item.paymentHash) await releasePaymentHash(item.paymentHash);
+    await logEvent({
+      action: "error",
+      success: false,
+      amountSats: item.amountSats,
+      invoice: item.invoice?.slice(0, 30),
+      error,
+      batchId,
+    });
+    return { ...base, status: "failed", error };
+  }
+}
+
+// Run fn over items with at most `limit` in flight, keeping result order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Send a batch of payments. Body: { items: [...] }, where each item is
+//   { type: "transfer", receiverSparkAddress, amountSats }      (pay:spark)
+//   { type: "spark_invoice", invoice, amountSats? }              (pay:spark)
+//   { type: "lightning", invoice, maxFeeSats, amountSats? }      (pay:lightning)
+export async function handleBatch(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: SpendOptions = {}
+): Promise<NextResponse> {
+  const { items } = body;
+  if (!Array.isArray(items) || items.length === 0) {
+    return errorResponse("items must be a non-empty array", "BAD_REQUEST");
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    return errorResponse(`A batch can have at most ${MAX_BATCH_ITEMS} items`, "BAD_REQUEST");
+  }
+
+  // Validate everything first — one bad item rejects the whole batch
+  const network = (process.env.SPARK_NETWORK || "MAINNET") as NetworkType;
+  const prepared: PreparedItem[] = [];
+  const errors: ItemError[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const result = await prepareItem(wallet, auth, items[i], i, network);
+    if ("error" in result) {
+      errors.push(result);
+      continue;
+    }
+    const tooLarge = checkMaxTx(result.reservedSats, auth.maxTxSats);
+    if (tooLarge) {
+      errors.push({ index: i, error: tooLarge, code: "TRANSACTION_TOO_LARGE" });
+    } else {
+      prepared.push(result);
+    }
+  }
+  if (errors.length === 0) {
+    errors.push(...(await findAlreadyPaid(wallet, prepared)));
+  }
+  if (errors.length > 0) {
+    errors.sort((a, b) => a.index - b.index);
+    const code = errors[0].code;
+    return errorResponse(
+      `${errors.length} of ${items.length} batch items were rejected; nothing was sent`,
+      code,
+      code === "ALREADY_PAID" ? 409 : code === "BAD_REQUEST" || code === "INVOICE_EXPIRED" ? 400 : 403,
+      { errors }
+    );
+  }
+
+  // The threshold applies to what the budget will be charged, fees included
+  const reservedSats = prepared.reduce((sum, item) => sum + item.reservedSats, 0);
+  const awaitingApproval = await checkApproval("batch", auth, body, reservedSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  // Refuse Lightning invoices this proxy already paid (or is paying right now)
+  const claimed: string[] = [];
+  for (const item of prepared) {
+    if (!item.paymentHash) continue;
+    const claim = await claimPaymentHash({
+      paymentHash: item.paymentHash,
+      source: "batch",
+      amountSats: item.amountSats,
+      invoice: item.invoice!,
+    });
+    if (!claim.claimed) {
+      await Promise.all(claimed.map(releasePaymentHash));
+      return errorResponse(describePaidInvoice(claim.record), "ALREADY_PAID", 409, {
+        errors: [{ index: item.index, error: describePaidInvoice(claim.record), code: "ALREADY_PAID" }],
+        record: claim.record,
+      });
+    }
+    claimed.push(item.paymentHash);
+  }
+
+  // All or nothing: reserve the whole total. maxTxSats caps each item (checked
+  // above), not the batch, so it's lifted to the total here.
+  const reserve = await reserveSpend(reservedSats, {
+    ...auth,
+    maxTxSats: Math.max(auth.maxTxSats, reservedSats),
+  });
+  if (!reserve.allowed) {
+    await Promise.all(claimed.map(releasePaymentHash));
+    return errorResponse(reserve.reason!, reserve.code!, 403);
+  }
+
+  const batchId = randomBytes(8).toString("hex");
+  const results = await mapWithConcurrency(prepared, BATCH_CONCURRENCY, (item) => runItem(wallet, item, batchId));
+
+  // Give back failed items and over-estimated fees in one adjustment. Items
+  // whose fee can't be determined keep their full reservation.
+  let spentSats = 0;
+  let feeSats = 0;
+  for (const [i, result] of results.entries()) {
+    if (result.status !== "sent") continue;
+    const item = prepared[i];
+    if (item.type === "lightning" && result.feeSats === undefined) {
+      spentSats += item.reservedSats;
+    } else {
+      spentSats += item.amountSats + (result.feeSats ?? 0);
+      feeSats += result.feeSats ?? 0;
+    }
+  }
+  const adjustment =
+    spentSats !== reservedSats ? await adjustSpend(reservedSats, spentSats, reserve.reservation!) : undefined;
+
+  const sent = results.filter((r) => r.status === "sent");
+  await logEvent({
+    action: "batch_sent",
+    success: sent.length > 0,
+    amountSats: sent.reduce((sum, r) => sum + r.amountSats, 0),
+    feeSats,
+    reservedSats,
+    budgetAdjustmentSats: adjustment?.adjustmentSats,
+    batchId,
+  });
+
+  return successResponse({
+    batchId,
+    sent: sent.length,
+    failed: results.length - sent.length,
+    amountSats: sent.reduce((sum, r) => sum + r.amountSats, 0),
+    feeSats,
+    reservedSats,
+    budgetAdjustmentSats: adjustment?.adjustmentSats ?? 0,
+    items: results,
+  });
+}
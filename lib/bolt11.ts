@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+import { decode } from "light-bolt11-decoder";
+import { secp256k1 } from "@noble/curves/secp256k1";
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const SIGNATURE_WORDS = 104; // 65 bytes = 520 bits
+const CHECKSUM_CHARS = 6;
+
+// Regroup 5-bit words into bytes, zero-padding the final byte (BOLT11 signing rule)
+function wordsToBytes(words: number[]): Buffer {
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const word of words) {
+    acc = (acc << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+  }
+  if (bits > 0) {
+    bytes.push((acc << (8 - bits)) & 0xff);
+  }
+  return Buffer.from(bytes);
+}
+
+// Payee node public key (hex) of a BOLT11 invoice. Uses the explicit `n`
+// field when present, otherwise recovers the key from the invoice signature.
+// Throws if the invoice can't be decoded.
+export function getInvoicePayee(invoice: string): string {
+  const decoded = decode(invoice);
+
+  // light-bolt11-decoder parses the `n` tag but doesn't type it
+  const payeeSection = decoded.sections.find(
+    (s) => (s as { name: string }).name === "payee"
+  ) as { value?: string } | undefined;
+  if (payeeSection?.value) {
+    return payeeSection.value.toLowerCase();
+  }
+
+  const signatureSection = decoded.sections.find((s) => s.name === "signature");
+  if (!signatureSection || !("value" in signatureSection)) {
+    throw new Error("Invoice has no signature");
+  }
+  const signature = Buffer.from(signatureSection.value, "hex");
+
+  // Signed message: sha256(hrp || data without signature), per BOLT11
+  const lower = invoice.toLowerCase();
+  const separator = lower.lastIndexOf("1");
+  const hrp = lower.slice(0, separator);
+  const dataChars = lower.slice(separator + 1, lower.length - CHECKSUM_CHARS);
+  const words = Array.from(dataChars, (c) => BECH32_CHARSET.indexOf(c));
+  const signedWords = words.slice(0, words.length - SIGNATURE_WORDS);
+  const messageHash = createHash("sha256")
+    .update(Buffer.concat([Buffer.from(hrp, "utf8"), wordsToBytes(signedWords)]))
+    .digest();
+
+  const recovered = secp256k1.Signature.fromCompact(signature.subarray(0, 64))
+    .addRecoveryBit(signature[64])
+    .recoverPublicKey(messageHash);
+  return recovered.toHex(true);
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { adjustSpend, checkMaxTx, releaseSpend, reserveSpend, type SpendReservation } from "./budget";
+
+// Lua doesn't run here, so eval is mocked: these tests check what the scripts
+// are given (keys in window order, the ARGV layout) and how replies are read.
+const redis = vi.hoisted(() => ({ eval: vi.fn(), get: vi.fn() }));
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn(function () {
+    return redis;
+  }),
+}));
+
+const NOW = new Date("2026-03-04T10:15:00Z"); // A Wednesday
+const KEYS = [
+  "spark:hourly_spend:t1:2026-03-04T10",
+  "spark:daily_spend:t1:2026-03-04",
+  "spark:rolling_spend:t1",
+  "spark:weekly_spend:t1:2026-03-02",
+  "spark:monthly_spend:t1:2026-03",
+];
+const TTLS = [7200, 172800, 90000, 1209600, 5356800];
+const RESERVATION: SpendReservation = {
+  tokenId: "t1",
+  reservedAt: NOW.getTime(),
+  keys: { hourly: KEYS[0], daily: KEYS[1], rolling_24h: KEYS[2], weekly: KEYS[3], monthly: KEYS[4] },
+};
+const params = { tokenId: "t1", maxTxSats: 1000, dailyBudgetSats: 5000, weeklyBudgetSats: 20000 };
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  redis.eval.mockReset();
+  redis.get.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("reserveSpend", () => {
+  it("passes each window's key, limit and TTL in window order", async () => {
+    redis.eval.mockResolvedValue([1, 700, 0, 0]);
+    const result = await reserveSpend(700, params);
+
+    const [, keys, args] = redis.eval.mock.calls[0];
+    expect(keys).toEqual(KEYS);
+    // amount, maxTx, limits (0 = none), now, rolling window
+    expect(args.slice(0, 9)).toEqual([700, 1000, 0, 5000, 0, 20000, 0, NOW.getTime(), 86_400_000]);
+    expect(args[9]).toMatch(new RegExp(`^${NOW.getTime()}:700:[0-9a-f]{8}$`));
+    expect(args.slice(10)).toEqual(TTLS);
+    expect(result).toEqual({ allowed: true, dailySpent: 700, dailyLimit: 5000, reservation: RESERVATION });
+  });
+
+  it.each([
+    [0, params],
+    [1.5, params],
+    [700, { ...params, maxTxSats: 0 }],
+    [700, { ...params, hourlyBudgetSats: -1 }],
+  ])("rejects an invalid amount or limit without calling Redis (case %#)", async (amount, limits) => {
+    const result = await reserveSpend(amount, limits);
+    expect(result).toMatchObject({ allowed: false, code: "INVALID_AMOUNT" });
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+
+  it("reads reason 1 as a transaction over maxTxSats", async () => {
+    redis.eval.mockResolvedValue([0, 300, 1, 0]);
+    expect(await reserveSpend(1500, params)).toEqual({
+      allowed: false,
+      reason: "Transaction amount 1500 exceeds per-transaction limit of 1000 sats",
+      dailySpent: 300,
+      dailyLimit: 5000,
+      code: "TRANSACTION_TOO_LARGE",
+    });
+  });
+
+  it("names the window that would be exceeded, with the daily spend beside it", async () => {
+    redis.eval.mockResolvedValue([0, 19_500, 2, 4]);
+    redis.get.mockResolvedValue(800);
+    expect(await reserveSpend(700, params)).toEqual({
+      allowed: false,
+      reason: "Would exceed weekly budget. Spent: 19500, Requested: 700, Limit: 20000",
+      dailySpent: 800,
+      dailyLimit: 5000,
+      code: "BUDGET_EXCEEDED",
+      window: "weekly",
+      windowSpent: 19_500,
+      windowLimit: 20_000,
+    });
+    expect(redis.get).toHaveBeenCalledWith(KEYS[1]);
+  });
+
+  it("doesn't read the daily spend again when the daily window is the one exceeded", async () => {
+    redis.eval.mockResolvedValue([0, 4800, 2, 2]);
+    expect(await reserveSpend(700, params)).toMatchObject({ window: "daily", dailySpent: 4800 });
+    expect(redis.get).not.toHaveBeenCalled();
+  });
+
+  it("reads reason 3 as invalid parameters", async () => {
+    redis.eval.mockResolvedValue([0, 0, 3, 0]);
+    expect(await reserveSpend(700, params)).toMatchObject({
+      allowed: false,
+      reason: "Invalid budget parameters",
+      code: "INVALID_AMOUNT",
+    });
+  });
+});
+
+describe("adjustSpend and releaseSpend", () => {
+  it("applies the difference to the reservation's windows after they roll over", async () => {
+    vi.setSystemTime(new Date("2026-03-05T00:30:00Z"));
+    redis.eval.mockResolvedValue(650);
+    const result = await adjustSpend(700, 650, RESERVATION);
+
+    const [, keys, args] = redis.eval.mock.calls[0];
+    expect(keys).toEqual(KEYS);
+    expect(args.slice(0, 2)).toEqual([-50, NOW.getTime()]);
+    // Scored at the reservation's time so it leaves the rolling window with it
+    expect(args[2]).toMatch(new RegExp(`^${NOW.getTime()}:-50:[0-9a-f]{8}$`));
+    expect(args.slice(3)).toEqual(TTLS);
+    expect(result).toEqual({ reservedSats: 700, actualSats: 650, adjustmentSats: -50, dailySpent: 650 });
+  });
+
+  it("charges an under-reservation", async () => {
+    redis.eval.mockResolvedValue(720);
+    expect(await adjustSpend(700, 720, RESERVATION)).toMatchObject({ adjustmentSats: 20 });
+    expect(redis.eval.mock.calls[0][2][0]).toBe(20);
+  });
+
+  it("releases the whole reservation", async () => {
+    redis.eval.mockResolvedValue(0);
+    await releaseSpend(700, RESERVATION);
+    const [, keys, args] = redis.eval.mock.calls[0];
+    expect(keys).toEqual(KEYS);
+    expect(args[0]).toBe(-700);
+  });
+});
+
+describe("checkMaxTx", () => {
+  it("allows amounts up to the limit", () => {
+    expect(checkMaxTx(1000, 1000)).toBeNull();
+    expect(checkMaxTx(1001, 1000)).toBe("Transaction amount 1001 exceeds per-transaction limit of 1000 sats");
+  });
+});
@@ -1,3 +1,4 @@
+import { randomBytes } from "crypto";
 import { Redis } from "@upstash/redis";
 
 let _redis: Redis | null = null;
@@ -12,52 +13,246 @@ function getRedis(): Redis {
   return _redis;
 }
 
-function getTodayKey(tokenId: string): string {
-  const today = new Date().toISOString().split("T")[0];
-  return `spark:daily_spend:${tokenId}:${today}`;
+// Spend is tracked for every window on every reservation, whether or not the
+// token has a limit for it, so the status endpoint can always report usage.
+// Order matters: it's the KEYS/ARGV order used by the Lua scripts below.
+export const BUDGET_WINDOWS = ["hourly", "daily", "rolling_24h", "weekly", "monthly"] as const;
+export type BudgetWindow = (typeof BUDGET_WINDOWS)[number];
+
+const ROLLING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const WINDOW_TTLS: Record<BudgetWindow, number> = {
+  hourly: 2 * 60 * 60,
+  daily: 86400 * 2,
+  rolling_24h: 25 * 60 * 60,
+  weekly: 86400 * 14,
+  monthly: 86400 * 62,
+};
+
+// Monday 00:00 UTC of the week containing `date`
+function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
 }
 
-// Lua script: atomically check budget and increment if allowed.
-// Returns [1, newTotal, 0] on success, [0, currentSpend, reason] if rejected.
+function getWindowKeys(tokenId: string, now: Date = new Date()): Record<BudgetWindow, string> {
+  const iso = now.toISOString();
+  return {
+    hourly: `spark:hourly_spend:${tokenId}:${iso.slice(0, 13)}`,
+    daily: `spark:daily_spend:${tokenId}:${iso.slice(0, 10)}`,
+    rolling_24h: `spark:rolling_spend:${tokenId}`,
+    weekly: `spark:weekly_spend:${tokenId}:${getWeekStart(now).toISOString().slice(0, 10)}`,
+    monthly: `spark:monthly_spend:${tokenId}:${iso.slice(0, 7)}`,
+  };
+}
+
+// When the current period of a calendar window ends. Rolling windows never reset.
+function getWindowResetsAt(window: BudgetWindow, now: Date): string | null {
+  switch (window) {
+    case "hourly":
+      return new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), now.getUTCHours() + 1)
+      ).toISOString();
+    case "daily":
+      return new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      ).toISOString();
+    case "weekly": {
+      const next = getWeekStart(now);
+      next.setUTCDate(next.getUTCDate() + 7);
+      return next.toISOString();
+    }
+    case "monthly":
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+    case "rolling_24h":
+      return null;
+  }
+}
+
+// Rolling spend is a sorted set scored by timestamp (ms). Members are
+// "<ms>:<amount>:<nonce>" — amount may be negative for refunds. Refunds and
+// charges are scored at their reservation's time so they leave the window
+// together with it.
+function newRollingMember(nowMs: number, amount: number): string {
+  return `${nowMs}:${amount}:${randomBytes(4).toString("hex")}`;
+}
+
+// Shared Lua helpers. Windows are KEYS[1..5] in BUDGET_WINDOWS order;
+// index 3 is the rolling sorted set, the rest are plain counters.
+const LUA_HELPERS = `
+local function rollingSum(key, now, windowMs)
+  redis.call("ZREMRANGEBYSCORE", key, "-inf", now - windowMs)
+  local total = 0
+  for _, member in ipairs(redis.call("ZRANGE", key, 0, -1)) do
+    total = total + (tonumber(string.match(member, "^%d+:(%-?%d+):")) or 0)
+  end
+  if total < 0 then
+    total = 0
+  end
+  return total
+end
+
+local function spentIn(i, now, windowMs)
+  if i == 3 then
+    return rollingSum(KEYS[i], now, windowMs)
+  end
+  return tonumber(redis.call("GET", KEYS[i]) or "0")
+end
+`;
+
+// Lua script: atomically check every window and increment all of them if allowed.
+// ARGV: amount, maxTx, 5 limits (0 = no limit, daily must be set), now (ms),
+//       rolling window (ms), rolling member, 5 TTLs.
+// Returns [1, dailyTotal, 0, 0] on success, [0, spent, reason, windowIndex] if rejected.
 // Reason codes: 1 = tx too large, 2 = budget exceeded, 3 = invalid params
 const RESERVE_SCRIPT = `
-local key = KEYS[1]
+${LUA_HELPERS}
 local amount = tonumber(ARGV[1])
 local maxTx = tonumber(ARGV[2])
-local dailyLimit = tonumber(ARGV[3])
-local ttl = tonumber(ARGV[4])
+local dailyLimit = tonumber(ARGV[4])
+local now = tonumber(ARGV[8])
+local windowMs = tonumber(ARGV[9])
+local member = ARGV[10]
 
 -- Fail-safe: reject if any parameter is invalid
 if not amount or not maxTx or not dailyLimit or amount <= 0 or maxTx <= 0 or dailyLimit <= 0 then
-  return {0, 0, 3}
+  return {0, 0, 3, 0}
+end
+for i = 1, 5 do
+  local limit = tonumber(ARGV[2 + i])
+  if not limit or limit < 0 then
+    return {0, 0, 3, 0}
+  end
 end
 
 if amount > maxTx then
-  return {0, tonumber(redis.call("GET", key) or "0"), 1}
+  return {0, spentIn(2, now, windowMs), 1, 0}
+end
+
+for i = 1, 5 do
+  local limit = tonumber(ARGV[2 + i])
+  if limit > 0 then
+    local current = spentIn(i, now, windowMs)
+    if current + amount > limit then
+      return {0, current, 2, i}
+    end
+  end
 end
 
-local current = tonumber(redis.call("GET", key) or "0")
-if current + amount > dailyLimit then
-  return {0, current, 2}
+local dailyTotal = 0
+for i = 1, 5 do
+  local ttl = tonumber(ARGV[10 + i])
+  if i == 3 then
+    redis.call("ZADD", KEYS[i], now, member)
+  else
+    local total = redis.call("INCRBY", KEYS[i], amount)
+    if i == 2 then
+      dailyTotal = total
+    end
+  end
+  redis.call("EXPIRE", KEYS[i], ttl)
+end
+return {1, dailyTotal, 0, 0}
+`;
+
+// Lua script: atomically apply a signed delta to every window, never going below 0.
+// KEYS are the reservation's window keys, so a delta lands in the period that
+// was charged even if the hour or day has since rolled over. Negative deltas
+// don't create counters that don't exist (e.g. after a reset or expiry).
+// ARGV: delta, reservation time (ms), rolling member, 5 TTLs. Returns the new daily total.
+const ADJUST_SCRIPT = `
+local delta = tonumber(ARGV[1])
+local reservedAt = tonumber(ARGV[2])
+local member = ARGV[3]
+
+if not delta or delta == 0 then
+  return tonumber(redis.call("GET", KEYS[2]) or "0")
 end
 
-local newTotal = redis.call("INCRBY", key, amount)
-redis.call("EXPIRE", key, ttl)
-return {1, newTotal, 0}
+local dailyTotal = 0
+for i = 1, 5 do
+  local ttl = tonumber(ARGV[3 + i])
+  local exists = redis.call("EXISTS", KEYS[i]) == 1
+  if delta > 0 or exists then
+    if i == 3 then
+      redis.call("ZADD", KEYS[i], reservedAt, member)
+    else
+      local total = tonumber(redis.call("GET", KEYS[i]) or "0") + delta
+      if total < 0 then
+        total = 0
+      end
+      redis.call("SET", KEYS[i], total)
+      if i == 2 then
+        dailyTotal = total
+      end
+    end
+    redis.call("EXPIRE", KEYS[i], ttl)
+  end
+end
+return dailyTotal
 `;
 
+// Where a reservation was recorded. Releases and adjustments go to the same
+// window keys and rolling timestamp, not the ones current when they run.
+export interface SpendReservation {
+  tokenId: string;
+  reservedAt: number; // ms
+  keys: Record<BudgetWindow, string>;
+}
+
 export type ReserveResult = {
   allowed: boolean;
   reason?: string;
+  // Set when allowed; pass it to releaseSpend/adjustSpend
+  reservation?: SpendReservation;
   dailySpent: number;
   dailyLimit: number;
   code?: "TRANSACTION_TOO_LARGE" | "BUDGET_EXCEEDED" | "INVALID_AMOUNT";
+  // Set when code is BUDGET_EXCEEDED: the window that would have been exceeded
+  window?: BudgetWindow;
+  windowSpent?: number;
+  windowLimit?: number;
 };
 
 export interface BudgetParams {
   tokenId: string;
   maxTxSats: number;
   dailyBudgetSats: number;
+  hourlyBudgetSats?: number;
+  rolling24hBudgetSats?: number;
+  weeklyBudgetSats?: number;
+  monthlyBudgetSats?: number;
+}
+
+function getWindowLimits(params: BudgetParams): Record<BudgetWindow, number | undefined> {
+  return {
+    hourly: params.hourlyBudgetSats,
+    daily: params.dailyBudgetSats,
+    rolling_24h: params.rolling24hBudgetSats,
+    weekly: params.weeklyBudgetSats,
+    monthly: params.monthlyBudgetSats,
+  };
+}
+
+const WINDOW_LABELS: Record<BudgetWindow, string> = {
+  hourly: "hourly",
+  daily: "daily",
+  rolling_24h: "rolling 24h",
+  weekly: "weekly",
+  monthly: "monthly",
+};
+
+function maxTxReason(amountSats: number, maxTxSats: number): string {
+  return `Transaction amount ${amountSats} exceeds per-transaction limit of ${maxTxSats} sats`;
+}
+
+// Check maxTxSats without touching Redis, so a payment that can never go
+// through is refused before it's queued for approval. reserveSpend checks it
+// again on the full amount. Returns the reason, or null if within the limit.
+export function checkMaxTx(amountSats: number, maxTxSats: number): string | null {
+  return amountSats > maxTxSats ? maxTxReason(amountSats, maxTxSats) : null;
 }
 
 export async function reserveSpend(
@@ -95,25 +290,52 @@ export async function reserveSpend(
     };
   }
 
-  const key = getTodayKey(tokenId);
+  const limits = getWindowLimits(params);
+  for (const window of BUDGET_WINDOWS) {
+    const limit = limits[window];
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      return {
+        allowed: false,
+        reason: `Invalid ${WINDOW_LABELS[window]} budget configuration: ${limit}`,
+        dailySpent: 0,
+        dailyLimit: dailyBudgetSats,
+        code: "INVALID_AMOUNT",
+      };
+    }
+  }
+
+  const now = new Date();
+  const keys = getWindowKeys(tokenId, now);
 
-  const result = (await getRedis().eval(RESERVE_SCRIPT, [key], [
-    amountSats,
-    maxTxSats,
-    dailyBudgetSats,
-    86400 * 2,
-  ])) as number[];
+  const result = (await getRedis().eval(
+    RESERVE_SCRIPT,
+    BUDGET_WINDOWS.map((w) => keys[w]),
+    [
+      amountSats,
+      maxTxSats,
+      ...BUDGET_WINDOWS.map((w) => limits[w] ?? 0),
+      now.getTime(),
+      ROLLING_WINDOW_MS,
+      newRollingMember(now.getTime(), amountSats),
+      ...BUDGET_WINDOWS.map((w) => WINDOW_TTLS[w]),
+    ]
+  )) as number[];
 
-  const [ok, spent, reason] = result;
+  const [ok, spent, reason, windowIndex] = result;
 
   if (ok === 1) {
-    return { allowed: true, dailySpent: spent, dailyLimit: dailyBudgetSats };
+    return {
+      allowed: true,
+      dailySpent: spent,
+      dailyLimit: dailyBudgetSats,
+      reservation: { tokenId, reservedAt: now.getTime(), keys },
+    };
   }
 
   if (reason === 1) {
     return {
       allowed: false,
-      reason: `Transaction amount ${amountSats} exceeds per-transaction limit of ${maxTxSats} sats`,
+      reason: maxTxReason(amountSats, maxTxSats),
       dailySpent: spent,
       dailyLimit: dailyBudgetSats,
       code: "TRANSACTION_TOO_LARGE",
@@ -130,39 +352,135 @@ export async function reserveSpend(
     };
   }
 
+  const window = BUDGET_WINDOWS[windowIndex - 1] ?? "daily";
+  const windowLimit = limits[window]!;
+  const dailySpent =
+    window === "daily" ? spent : (await getRedis().get<number>(keys.daily)) || 0;
+
   return {
     allowed: false,
-    reason: `Would exceed daily budget. Spent: ${spent}, Requested: ${amountSats}, Limit: ${dailyBudgetSats}`,
-    dailySpent: spent,
+    reason: `Would exceed ${WINDOW_LABELS[window]} budget. Spent: ${spent}, Requested: ${amountSats}, Limit: ${windowLimit}`,
+    dailySpent,
     dailyLimit: dailyBudgetSats,
     code: "BUDGET_EXCEEDED",
+    window,
+    windowSpent: spent,
+    windowLimit,
   };
 }
 
+async function applySpendDelta(deltaSats: number, reservation: SpendReservation): Promise<number> {
+  const { keys, reservedAt } = reservation;
+  return (await getRedis().eval(
+    ADJUST_SCRIPT,
+    BUDGET_WINDOWS.map((w) => keys[w]),
+    [
+      deltaSats,
+      reservedAt,
+      newRollingMember(reservedAt, deltaSats),
+      ...BUDGET_WINDOWS.map((w) => WINDOW_TTLS[w]),
+    ]
+  )) as number;
+}
+
 // Compensating decrement if payment fails after reservation.
 export async function releaseSpend(
   amountSats: number,
-  tokenId: string
+  reservation: SpendReservation
 ): Promise<void> {
-  const key = getTodayKey(tokenId);
-  await getRedis().decrby(key, amountSats);
+  await applySpendDelta(-amountSats, reservation);
+}
+
+export interface SpendAdjustment {
+  reservedSats: number;
+  actualSats: number;
+  adjustmentSats: number; // Negative = refunded, positive = charged
+  dailySpent: number;
+}
+
+// True up a reservation once the real amount is known (e.g. the Lightning fee
+// actually charged). Refunds the difference if we over-reserved, charges it if
+// we under-reserved. Charges are applied even past the limits — the money has
+// already left the wallet.
+export async function adjustSpend(
+  reservedSats: number,
+  actualSats: number,
+  reservation: SpendReservation
+): Promise<SpendAdjustment> {
+  const adjustmentSats = actualSats - reservedSats;
+  const dailySpent = await applySpendDelta(adjustmentSats, reservation);
+  return { reservedSats, actualSats, adjustmentSats, dailySpent };
+}
+
+export interface WindowStatus {
+  spent: number;
+  limit: number | null;
+  remaining: number | null;
+  resetsAt: string | null; // null for the rolling window
+}
+
+export async function getBudgetStatus(
+  params: BudgetParams
+): Promise<Record<BudgetWindow, WindowStatus>> {
+  const now = new Date();
+  const keys = getWindowKeys(params.tokenId, now);
+  const limits = getWindowLimits(params);
+  const redis = getRedis();
+
+  const [hourly, daily, weekly, monthly, members] = await Promise.all([
+    redis.get<number>(keys.hourly),
+    redis.get<number>(keys.daily),
+    redis.get<number>(keys.weekly),
+    redis.get<number>(keys.monthly),
+    redis.zrange<string[]>(keys.rolling_24h, now.getTime() - ROLLING_WINDOW_MS, "+inf", {
+      byScore: true,
+    }),
+  ]);
+
+  let rolling = 0;
+  for (const member of members) {
+    rolling += Number(String(member).split(":")[1]) || 0;
+  }
+
+  const spent: Record<BudgetWindow, number> = {
+    hourly: Number(hourly) || 0,
+    daily: Number(daily) || 0,
+    rolling_24h: Math.max(0, rolling),
+    weekly: Number(weekly) || 0,
+    monthly: Number(monthly) || 0,
+  };
+
+  const status = {} as Record<BudgetWindow, WindowStatus>;
+  for (const window of BUDGET_WINDOWS) {
+    const limit = limits[window] ?? null;
+    status[window] = {
+      spent: spent[window],
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - spent[window]),
+      resetsAt: getWindowResetsAt(window, now),
+    };
+  }
+  return status;
 }
 
 export async function getDailySpend(tokenId: string): Promise<number> {
-  const key = getTodayKey(tokenId);
+  const key = getWindowKeys(tokenId).daily;
   return (await getRedis().get<number>(key)) || 0;
 }
 
 export async function resetDailySpend(tokenId: string): Promise<void> {
-  const key = getTodayKey(tokenId);
+  const key = getWindowKeys(tokenId).daily;
   await getRedis().del(key);
 }
 
-export async function resetAllDailySpends(): Promise<number> {
-  const today = new Date().toISOString().split("T")[0];
-  const pattern = `spark:daily_spend:*:${today}`;
-  const keys = await getRedis().keys(pattern);
-  if (keys.length === 0) return 0;
-  await Promise.all(keys.map((key) => getRedis().del(key)));
-  return keys.length;
+// Clears the current period of every window for every token.
+export async function resetAllSpends(): Promise<number> {
+  const keys = getWindowKeys("*");
+  const matched = await Promise.all(
+    BUDGET_WINDOWS.map((w) => getRedis().keys(keys[w]))
+  );
+  const all = matched.flat();
+  if (all.length === 0) return 0;
+  await Promise.all(all.map((key) => getRedis().del(key)));
+  return all.length;
 }
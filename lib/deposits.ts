@@ -0,0 +1,331 @@
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { Redis } from "@upstash/redis";
+import { logEvent } from "./log";
+import type { AuthResult } from "./auth";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// L1 deposit addresses issued through /api/deposit-address, remembered so
+// deposits to them can be found and claimed into the Spark balance.
+
+const DEPOSITS_KEY = "spark:deposit_addresses";
+const STATIC_CLAIMS_KEY = "spark:static_deposit_claims"; // Hash "<txid>:<vout>" -> StaticDepositClaim
+const CLAIM_LOCK_TTL = 5 * 60; // A claim in progress blocks others for at most 5 minutes
+const UTXO_PAGE_SIZE = 100;
+const MEMPOOL_TIMEOUT_MS = 5000;
+
+export type DepositAddressKind = "single_use" | "static";
+
+export type DepositStatus = "unfunded" | "pending_confirmations" | "claimable" | "claimed";
+
+export interface ClaimedDeposit {
+  txid: string;
+  amountSats: number;
+  claimedAt: string;
+}
+
+export interface TrackedDepositAddress {
+  address: string;
+  kind?: DepositAddressKind; // Missing on addresses tracked before static support
+  tokenId: string;
+  tokenLabel: string;
+  label?: string;
+  createdAt: string;
+  claims?: ClaimedDeposit[]; // Deposits claimed through this proxy
+}
+
+export interface DepositAddressStatus extends TrackedDepositAddress {
+  status: DepositStatus;
+  claimableTxids: string[];
+  pendingTxids: string[];
+}
+
+export interface StaticDepositClaim {
+  txid: string;
+  vout: number;
+  creditAmountSats: number;
+  transferId: string;
+  claimedAt: string;
+  claimedBy: string; // Label of the admin token that claimed it
+}
+
+export interface StaticDepositUtxo {
+  txid: string;
+  vout: number;
+  amountSats?: number; // From Esplora, when configured and reachable
+  claimed?: StaticDepositClaim;
+}
+
+function parseTracked(raw: unknown): TrackedDepositAddress {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as TrackedDepositAddress);
+}
+
+export async function trackDepositAddress(
+  address: string,
+  auth: AuthResult,
+  label?: string
+): Promise<TrackedDepositAddress> {
+  const tracked: TrackedDepositAddress = {
+    address,
+    kind: "single_use",
+    tokenId: auth.tokenId,
+    tokenLabel: auth.label,
+    label,
+    createdAt: new Date().toISOString(),
+  };
+  await getRedis().hset(DEPOSITS_KEY, { [address]: JSON.stringify(tracked) });
+  return tracked;
+}
+
+// The static address is shared, so only its first request is recorded
+export async function trackStaticDepositAddress(
+  address: string,
+  auth: AuthResult,
+  label?: string
+): Promise<TrackedDepositAddress> {
+  const tracked: TrackedDepositAddress = {
+    address,
+    kind: "static",
+    tokenId: auth.tokenId,
+    tokenLabel: auth.label,
+    label,
+    createdAt: new Date().toISOString(),
+  };
+  const redis = getRedis();
+  await redis.hsetnx(DEPOSITS_KEY, address, JSON.stringify(tracked));
+  return (await getTrackedDepositAddress(address)) ?? tracked;
+}
+
+// Reuse the wallet's static address if it has one
+export async function getOrCreateStaticDepositAddress(wallet: SparkWallet): Promise<string> {
+  const existing = await wallet.queryStaticDepositAddresses();
+  return existing[0] ?? (await wallet.getStaticDepositAddress());
+}
+
+export async function getTrackedDepositAddress(address: string): Promise<TrackedDepositAddress | null> {
+  const raw = await getRedis().hget(DEPOSITS_KEY, address);
+  return raw ? parseTracked(raw) : null;
+}
+
+// Newest first; pass a tokenId to only list that token's addresses
+export async function listTrackedDepositAddresses(tokenId?: string): Promise<TrackedDepositAddress[]> {
+  const all = await getRedis().hgetall(DEPOSITS_KEY);
+  if (!all) return [];
+  return Object.values(all)
+    .map(parseTracked)
+    .filter((d) => !tokenId || d.tokenId === tokenId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Esplora API used to spot unconfirmed deposits and look up output values.
+// Opt-in: querying it reveals the wallet's addresses to whoever runs it.
+function getEsploraUrl(): string | undefined {
+  return process.env.ESPLORA_URL || undefined;
+}
+
+// Txids paying the address that are still in the mempool. Best effort — with
+// no Esplora API configured, or an unreachable one, none are reported.
+async function getMempoolTxids(address: string): Promise<string[]> {
+  const esploraUrl = getEsploraUrl();
+  if (!esploraUrl) return [];
+  try {
+    const res = await fetch(`${esploraUrl}/address/${address}/txs/mempool`, {
+      signal: AbortSignal.timeout(MEMPOOL_TIMEOUT_MS),
+    });
+    if (!res.ok) return [];
+    const txs = (await res.json()) as { txid: string }[];
+    return Array.isArray(txs) ? txs.map((tx) => tx.txid) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Value of one transaction output, or undefined without a reachable Esplora API
+async function getOutputValue(txid: string, vout: number): Promise<number | undefined> {
+  const esploraUrl = getEsploraUrl();
+  if (!esploraUrl) return undefined;
+  try {
+    const res = await fetch(`${esploraUrl}/tx/${txid}`, { signal: AbortSignal.timeout(MEMPOOL_TIMEOUT_MS) });
+    if (!res.ok) return undefined;
+    const tx = (await res.json()) as { vout?: { value?: number }[] };
+    const value = tx.vout?.[vout]?.value;
+    return typeof value === "number" ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function getConfirmedTxids(
+  wallet: SparkWallet,
+  address: string,
+  excludeClaimed: boolean
+): Promise<string[]> {
+  const utxos = await wallet.getUtxosForDepositAddress(address, UTXO_PAGE_SIZE, 0, excludeClaimed);
+  return [...new Set(utxos.map((utxo) => utxo.txid))];
+}
+
+export async function getDepositAddressStatus(
+  wallet: SparkWallet,
+  tracked: TrackedDepositAddress
+): Promise<DepositAddressStatus> {
+  const [confirmed, claimable] = await Promise.all([
+    getConfirmedTxids(wallet, tracked.address, false),
+    getConfirmedTxids(wallet, tracked.address, true),
+  ]);
+
+  let status: DepositStatus;
+  let pendingTxids: string[] = [];
+  if (claimable.length > 0) {
+    status = "claimable";
+  } else if (confirmed.length > 0) {
+    status = "claimed";
+  } else {
+    pendingTxids = await getMempoolTxids(tracked.address);
+    status = pendingTxids.length > 0 ? "pending_confirmations" : "unfunded";
+  }
+
+  return { ...tracked, status, claimableTxids: claimable, pendingTxids };
+}
+
+// Claim every confirmed, unclaimed deposit to a tracked address
+export async function claimDeposits(
+  wallet: SparkWallet,
+  tracked: TrackedDepositAddress
+): Promise<{ claimed: ClaimedDeposit[]; errors: { txid: string; error: string }[] }> {
+  const txids = await getConfirmedTxids(wallet, tracked.address, true);
+  const claimed: ClaimedDeposit[] = [];
+  const errors: { txid: string; error: string }[] = [];
+
+  for (const txid of txids) {
+    try {
+      const leaves = await wallet.claimDeposit(txid);
+      const deposit: ClaimedDeposit = {
+        txid,
+        amountSats: leaves.reduce((sum, leaf) => sum + leaf.value, 0),
+        claimedAt: new Date().toISOString(),
+      };
+      claimed.push(deposit);
+      await logEvent({
+        action: "deposit_received",
+        success: true,
+        amountSats: deposit.amountSats,
+        depositAddress: tracked.address,
+        txid,
+      });
+    } catch (err) {
+      errors.push({ txid, error: err instanceof Error ? err.message : "Claim failed" });
+    }
+  }
+
+  if (claimed.length > 0) {
+    // Re-read so a concurrent claim's records aren't overwritten
+    const current = (await getTrackedDepositAddress(tracked.address)) ?? tracked;
+    const updated = { ...current, claims: [...(current.claims ?? []), ...claimed] };
+    await getRedis().hset(DEPOSITS_KEY, { [tracked.address]: JSON.stringify(updated) });
+  }
+
+  return { claimed, errors };
+}
+
+function parseStaticClaim(raw: unknown): StaticDepositClaim {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as StaticDepositClaim);
+}
+
+function utxoKey(txid: string, vout: number): string {
+  return `${txid}:${vout}`;
+}
+
+export async function getStaticDepositClaim(txid: string, vout: number): Promise<StaticDepositClaim | null> {
+  const raw = await getRedis().hget(STATIC_CLAIMS_KEY, utxoKey(txid, vout));
+  return raw ? parseStaticClaim(raw) : null;
+}
+
+// Confirmed UTXOs on the static address, with our claim records
+export async function listStaticDepositUtxos(wallet: SparkWallet, address: string): Promise<StaticDepositUtxo[]> {
+  const utxos = await wallet.getUtxosForDepositAddress(address, UTXO_PAGE_SIZE, 0, false);
+  const claims = (await getRedis().hgetall(STATIC_CLAIMS_KEY)) ?? {};
+  return Promise.all(
+    utxos.map(async ({ txid, vout }) => {
+      const claim = claims[utxoKey(txid, vout)];
+      return {
+        txid,
+        vout,
+        amountSats: await getOutputValue(txid, vout),
+        claimed: claim ? parseStaticClaim(claim) : undefined,
+      };
+    })
+  );
+}
+
+// What claiming a UTXO would credit. feeSats is only known when Esplora
+// returns the output value.
+export async function quoteStaticDepositClaim(wallet: SparkWallet, txid: string, vout: number) {
+  const [quote, amountSats] = await Promise.all([
+    wallet.getClaimStaticDepositQuote(txid, vout),
+    getOutputValue(txid, vout),
+  ]);
+  return {
+    quote,
+    amountSats,
+    feeSats: amountSats !== undefined ? amountSats - quote.creditAmountSats : undefined,
+  };
+}
+
+// Claim one UTXO. A lock key stops two admins claiming the same UTXO at once;
+// the claim record stops it being claimed again later.
+export async function claimStaticDepositUtxo(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  address: string,
+  quote: { transactionId: string; outputIndex: number; creditAmountSats: number; signature: string }
+): Promise<{ claim: StaticDepositClaim } | { error: string }> {
+  const { transactionId: txid, outputIndex: vout } = quote;
+  const redis = getRedis();
+  const lockKey = `${STATIC_CLAIMS_KEY}:lock:${utxoKey(txid, vout)}`;
+
+  const locked = await redis.set(lockKey, "1", { nx: true, ex: CLAIM_LOCK_TTL });
+  if (locked === null) return { error: "This deposit is already being claimed" };
+
+  try {
+    const existing = await getStaticDepositClaim(txid, vout);
+    if (existing) return { error: `This deposit was already claimed at ${existing.claimedAt}` };
+
+    const result = await wallet.claimStaticDeposit({
+      transactionId: txid,
+      outputIndex: vout,
+      creditAmountSats: quote.creditAmountSats,
+      sspSignature: quote.signature,
+    });
+    if (!result) return { error: "Claim was not accepted" };
+
+    const claim: StaticDepositClaim = {
+      txid,
+      vout,
+      creditAmountSats: quote.creditAmountSats,
+      transferId: result.transferId,
+      claimedAt: new Date().toISOString(),
+      claimedBy: auth.label,
+    };
+    await redis.hset(STATIC_CLAIMS_KEY, { [utxoKey(txid, vout)]: JSON.stringify(claim) });
+    await logEvent({
+      action: "deposit_received",
+      success: true,
+      amountSats: claim.creditAmountSats,
+      depositAddress: address,
+      txid,
+    });
+    return { claim };
+  } finally {
+    await redis.del(lockKey);
+  }
+}
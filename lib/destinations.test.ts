@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { checkDestination, parseDestinationPolicy } from "./destinations";
+
+const PAYEE_A = `02${"a".repeat(64)}`;
+const PAYEE_B = `03${"b".repeat(64)}`;
+
+describe("checkDestination", () => {
+  it("allows anything without a list for that kind", () => {
+    expect(checkDestination(undefined, "lightningPayees", PAYEE_A)).toEqual({ allowed: true });
+    expect(checkDestination({ sparkAddresses: { deny: ["sp1x"] } }, "lightningPayees", PAYEE_A)).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("lets deny win over allow", () => {
+    const policy = { lightningPayees: { allow: [PAYEE_A], deny: [PAYEE_A] } };
+    expect(checkDestination(policy, "lightningPayees", PAYEE_A)).toEqual({
+      allowed: false,
+      reason: `Lightning payee ${PAYEE_A} is on this token's deny list`,
+    });
+  });
+
+  it("requires a match when an allow list is set", () => {
+    const policy = { lightningPayees: { allow: [PAYEE_A] } };
+    expect(checkDestination(policy, "lightningPayees", PAYEE_A).allowed).toBe(true);
+    expect(checkDestination(policy, "lightningPayees", PAYEE_B)).toEqual({
+      allowed: false,
+      reason: `Lightning payee ${PAYEE_B} is not on this token's allow list`,
+    });
+  });
+
+  it("compares destinations trimmed and lowercased, like list entries", () => {
+    const policy = { sparkAddresses: { allow: ["sp1abc"] } };
+    expect(checkDestination(policy, "sparkAddresses", " SP1ABC ").allowed).toBe(true);
+  });
+
+  it("matches L402 hosts from the URL, with wildcards for subdomains only", () => {
+    const policy = { l402Hosts: { allow: ["*.example.com", "api.other.com"] } };
+    expect(checkDestination(policy, "l402Hosts", "https://API.example.com/v1").allowed).toBe(true);
+    expect(checkDestination(policy, "l402Hosts", "https://a.b.example.com").allowed).toBe(true);
+    expect(checkDestination(policy, "l402Hosts", "https://example.com").allowed).toBe(false);
+    expect(checkDestination(policy, "l402Hosts", "https://badexample.com").allowed).toBe(false);
+    expect(checkDestination(policy, "l402Hosts", "https://api.other.com:8443/x").allowed).toBe(true);
+    expect(checkDestination(policy, "l402Hosts", "https://www.api.other.com").allowed).toBe(false);
+  });
+});
+
+describe("parseDestinationPolicy", () => {
+  it("normalizes entries", () => {
+    expect(
+      parseDestinationPolicy({
+        lightningPayees: { allow: [` ${PAYEE_A.toUpperCase()} `] },
+        l402Hosts: { deny: ["*.Example.com"] },
+        bitcoinAddresses: { allow: ["BC1QXY2KGDYGJRSQTZQ2N0YRF2493P83KKFJHX0WLH"] },
+      })
+    ).toEqual({
+      policy: {
+        lightningPayees: { allow: [PAYEE_A] },
+        l402Hosts: { deny: ["*.example.com"] },
+        bitcoinAddresses: { allow: ["bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh"] },
+      },
+    });
+  });
+
+  it.each([
+    [[], "destinations must be an object"],
+    [{ emails: {} }, "Unknown destinations key: emails"],
+    [{ sparkAddresses: ["sp1abc"] }, "destinations.sparkAddresses must be an object with allow and/or deny lists"],
+    [{ sparkAddresses: { only: [] } }, "destinations.sparkAddresses only accepts allow and deny"],
+    [
+      { sparkAddresses: { allow: Array(101).fill("sp1abc") } },
+      "destinations.sparkAddresses.allow must be an array of at most 100 entries",
+    ],
+    [{ lightningPayees: { deny: ["02abc"] } }, "Invalid Lightning payee in destinations.lightningPayees.deny: 02abc"],
+    [{ l402Hosts: { allow: ["https://example.com"] } }, "Invalid L402 host in destinations.l402Hosts.allow: https://example.com"],
+  ])("rejects %j", (input, error) => {
+    expect(parseDestinationPolicy(input)).toEqual({ error });
+  });
+});
@@ -0,0 +1,144 @@
+// Per-token allow/deny lists for where a token may send funds.
+
+export interface DestinationLists {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface DestinationPolicy {
+  lightningPayees?: DestinationLists; // Payee node pubkeys (hex, compressed)
+  sparkAddresses?: DestinationLists; // Spark receiver addresses
+  l402Hosts?: DestinationLists; // Host patterns: "api.example.com" or "*.example.com"
+  bitcoinAddresses?: DestinationLists; // On-chain withdrawal addresses
+}
+
+export type DestinationKind = keyof DestinationPolicy;
+
+export type DestinationCheck =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+const DESTINATION_KINDS: DestinationKind[] = [
+  "lightningPayees",
+  "sparkAddresses",
+  "l402Hosts",
+  "bitcoinAddresses",
+];
+const MAX_LIST_ENTRIES = 100;
+
+const KIND_LABELS: Record<DestinationKind, string> = {
+  lightningPayees: "Lightning payee",
+  sparkAddresses: "Spark address",
+  l402Hosts: "L402 host",
+  bitcoinAddresses: "Bitcoin address",
+};
+
+const PUBKEY_PATTERN = /^0[23][0-9a-f]{64}$/;
+const SPARK_ADDRESS_PATTERN = /^[a-z0-9]+1[a-z0-9]+$/;
+// Bech32 (bc1/tb1/bcrt1) or base58 (P2PKH/P2SH), compared lowercased
+const BITCOIN_ADDRESS_PATTERN = /^((bc|tb|bcrt)1[a-z0-9]{8,87}|[123mn][a-z0-9]{25,34})$/;
+const HOST_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+// "*.example.com" matches any subdomain of example.com, but not example.com itself
+function hostMatches(pattern: string, host: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+function entryMatches(kind: DestinationKind, entry: string, value: string): boolean {
+  return kind === "l402Hosts" ? hostMatches(entry, value) : entry === value;
+}
+
+// Normalize a destination the same way list entries are normalized
+function normalize(kind: DestinationKind, value: string): string {
+  if (kind === "l402Hosts") {
+    try {
+      return new URL(value).hostname.toLowerCase();
+    } catch {
+      return value.toLowerCase();
+    }
+  }
+  return value.trim().toLowerCase();
+}
+
+// Deny wins over allow. An allow list, when present, must contain the destination.
+export function checkDestination(
+  policy: DestinationPolicy | undefined,
+  kind: DestinationKind,
+  destination: string
+): DestinationCheck {
+  const lists = policy?.[kind];
+  if (!lists) return { allowed: true };
+
+  const value = normalize(kind, destination);
+  const label = KIND_LABELS[kind];
+
+  if (lists.deny?.some((entry) => entryMatches(kind, entry, value))) {
+    return { allowed: false, reason: `${label} ${value} is on this token's deny list` };
+  }
+  if (lists.allow && !lists.allow.some((entry) => entryMatches(kind, entry, value))) {
+    return { allowed: false, reason: `${label} ${value} is not on this token's allow list` };
+  }
+  return { allowed: true };
+}
+
+function validateEntry(kind: DestinationKind, entry: string): boolean {
+  switch (kind) {
+    case "lightningPayees":
+      return PUBKEY_PATTERN.test(entry);
+    case "sparkAddresses":
+      return SPARK_ADDRESS_PATTERN.test(entry);
+    case "l402Hosts":
+      return HOST_PATTERN.test(entry);
+    case "bitcoinAddresses":
+      return BITCOIN_ADDRESS_PATTERN.test(entry);
+  }
+}
+
+// Validate and normalize a destination policy from an API request body.
+export function parseDestinationPolicy(
+  input: unknown
+): { policy: DestinationPolicy } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "destinations must be an object" };
+  }
+  const obj = input as Record<string, unknown>;
+
+  for (const key of Object.keys(obj)) {
+    if (!DESTINATION_KINDS.includes(key as DestinationKind)) {
+      return { error: `Unknown destinations key: ${key}` };
+    }
+  }
+
+  const policy: DestinationPolicy = {};
+  for (const kind of DESTINATION_KINDS) {
+    const raw = obj[kind];
+    if (raw === undefined) continue;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      return { error: `destinations.${kind} must be an object with allow and/or deny lists` };
+    }
+
+    const lists: DestinationLists = {};
+    for (const [listName, entries] of Object.entries(raw as Record<string, unknown>)) {
+      if (listName !== "allow" && listName !== "deny") {
+        return { error: `destinations.${kind} only accepts allow and deny` };
+      }
+      if (!Array.isArray(entries) || entries.length > MAX_LIST_ENTRIES) {
+        return { error: `destinations.${kind}.${listName} must be an array of at most ${MAX_LIST_ENTRIES} entries` };
+      }
+      const normalized: string[] = [];
+      for (const entry of entries) {
+        if (typeof entry !== "string" || !validateEntry(kind, entry.trim().toLowerCase())) {
+          return { error: `Invalid ${KIND_LABELS[kind]} in destinations.${kind}.${listName}: ${String(entry)}` };
+        }
+        normalized.push(entry.trim().toLowerCase());
+      }
+      lists[listName] = normalized;
+    }
+    policy[kind] = lists;
+  }
+
+  return { policy };
+}
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequestBody,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+} from "./idempotency";
+
+// In-memory stand-in for the SET NX / GET / DEL calls. Like Upstash, GET
+// returns stored JSON already parsed.
+const store = vi.hoisted(() => new Map<string, string>());
+const redis = vi.hoisted(() => ({
+  set: vi.fn(async (key: string, value: string, options: { nx?: boolean; ex?: number }) => {
+    if (options.nx && store.has(key)) return null;
+    store.set(key, value);
+    return "OK";
+  }),
+  get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+  del: vi.fn(async (key: string) => Number(store.delete(key))),
+}));
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn(function () {
+    return redis;
+  }),
+}));
+
+const BODY = hashRequestBody('{"invoice":"lnbc1..."}');
+
+beforeEach(() => {
+  store.clear();
+  vi.clearAllMocks();
+});
+
+describe("isValidIdempotencyKey", () => {
+  it("accepts 1-255 printable ASCII characters", () => {
+    expect(isValidIdempotencyKey("order-42")).toBe(true);
+    expect(isValidIdempotencyKey("x".repeat(255))).toBe(true);
+    expect(isValidIdempotencyKey("")).toBe(false);
+    expect(isValidIdempotencyKey("x".repeat(256))).toBe(false);
+    expect(isValidIdempotencyKey("has space")).toBe(false);
+    expect(isValidIdempotencyKey("naïve")).toBe(false);
+  });
+});
+
+describe("claimIdempotencyKey", () => {
+  it("claims a new key with SET NX and the default TTL", async () => {
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toEqual({ claimed: true });
+    expect(redis.set).toHaveBeenCalledWith("spark:idempotency:t1:/api/pay:k1", expect.any(String), {
+      nx: true,
+      ex: 86_400,
+    });
+  });
+
+  it("returns the in-flight record to a second claim", async () => {
+    await claimIdempotencyKey("t1", "/api/pay", "k1", BODY);
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toEqual({
+      claimed: false,
+      record: { status: "in_flight", bodyHash: BODY, createdAt: expect.any(String) },
+    });
+  });
+
+  it("keeps keys separate per token and per route", async () => {
+    await claimIdempotencyKey("t1", "/api/pay", "k1", BODY);
+    expect(await claimIdempotencyKey("t2", "/api/pay", "k1", BODY)).toEqual({ claimed: true });
+    expect(await claimIdempotencyKey("t1", "/api/transfer", "k1", BODY)).toEqual({ claimed: true });
+  });
+
+  it("claims again if the key expires between SET and GET", async () => {
+    store.set("spark:idempotency:t1:/api/pay:k1", "{}");
+    redis.get.mockImplementationOnce(async () => {
+      store.clear();
+      return null;
+    });
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toEqual({ claimed: true });
+    expect(redis.set).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("completeIdempotencyKey and releaseIdempotencyKey", () => {
+  it("stores the outcome for replays", async () => {
+    await claimIdempotencyKey("t1", "/api/pay", "k1", BODY);
+    const response = { success: true, data: { id: "payment-1" } };
+    await completeIdempotencyKey("t1", "/api/pay", "k1", { bodyHash: BODY, httpStatus: 200, response });
+
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toMatchObject({
+      claimed: false,
+      record: { status: "succeeded", httpStatus: 200, response },
+    });
+  });
+
+  it("records non-2xx outcomes as failed", async () => {
+    await completeIdempotencyKey("t1", "/api/pay", "k1", { bodyHash: BODY, httpStatus: 403, response: {} });
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toMatchObject({
+      record: { status: "failed", httpStatus: 403 },
+    });
+  });
+
+  it("lets a released key be claimed again", async () => {
+    await claimIdempotencyKey("t1", "/api/pay", "k1", BODY);
+    await releaseIdempotencyKey("t1", "/api/pay", "k1");
+    expect(await claimIdempotencyKey("t1", "/api/pay", "k1", BODY)).toEqual({ claimed: true });
+  });
+});
@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+const IDEMPOTENCY_PREFIX = "spark:idempotency";
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyStatus = "in_flight" | "succeeded" | "failed";
+
+export interface IdempotencyRecord {
+  status: IdempotencyStatus;
+  bodyHash: string;
+  createdAt: string;
+  httpStatus?: number;
+  response?: unknown;
+}
+
+export type ClaimResult =
+  | { claimed: true }
+  | { claimed: false; record: IdempotencyRecord };
+
+function getTtlSeconds(): number {
+  const ttl = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || "");
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+// Keys are scoped per token and route so two agents can't collide on the
+// same key, and a key reused on another route doesn't replay this one.
+function getRecordKey(tokenId: string, route: string, idempotencyKey: string): string {
+  return `${IDEMPOTENCY_PREFIX}:${tokenId}:${route}:${idempotencyKey}`;
+}
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+export function hashRequestBody(body: string): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+// Atomically claim a key for a new request (SET NX). If the key already
+// exists, the stored record is returned so the caller can replay or reject.
+export async function claimIdempotencyKey(
+  tokenId: string,
+  route: string,
+  idempotencyKey: string,
+  bodyHash: string
+): Promise<ClaimResult> {
+  const redis = getRedis();
+  const key = getRecordKey(tokenId, route, idempotencyKey);
+  const record: IdempotencyRecord = {
+    status: "in_flight",
+    bodyHash,
+    createdAt: new Date().toISOString(),
+  };
+
+  const set = await redis.set(key, JSON.stringify(record), {
+    nx: true,
+    ex: getTtlSeconds(),
+  });
+  if (set) return { claimed: true };
+
+  const raw = await redis.get(key);
+  if (!raw) {
+    // Expired between SET and GET — treat as a fresh claim
+    return claimIdempotencyKey(tokenId, route, idempotencyKey, bodyHash);
+  }
+  const existing: IdempotencyRecord =
+    typeof raw === "string" ? JSON.parse(raw) : (raw as IdempotencyRecord);
+  return { claimed: false, record: existing };
+}
+
+// Record the final outcome of a claimed request so replays return it.
+export async function completeIdempotencyKey(
+  tokenId: string,
+  route: string,
+  idempotencyKey: string,
+  outcome: {
+    bodyHash: string;
+    httpStatus: number;
+    response: unknown;
+  }
+): Promise<void> {
+  const record: IdempotencyRecord = {
+    status: outcome.httpStatus >= 200 && outcome.httpStatus < 300 ? "succeeded" : "failed",
+    bodyHash: outcome.bodyHash,
+    createdAt: new Date().toISOString(),
+    httpStatus: outcome.httpStatus,
+    response: outcome.response,
+  };
+  await getRedis().set(getRecordKey(tokenId, route, idempotencyKey), JSON.stringify(record), {
+    ex: getTtlSeconds(),
+  });
+}
+
+// Drop a claim whose request failed before any funds could move, so a retry
+// with the same key runs again instead of replaying the failure.
+export async function releaseIdempotencyKey(
+  tokenId: string,
+  route: string,
+  idempotencyKey: string
+): Promise<void> {
+  await getRedis().del(getRecordKey(tokenId, route, idempotencyKey));
+}
@@ -0,0 +1,55 @@
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { successResponse, errorResponse, requireScope } from "./spark";
+import { logEvent, trackPendingInvoice } from "./log";
+import type { AuthResult } from "./auth";
+
+const DEFAULT_EXPIRY_SECONDS = 3600; // 1 hour
+
+// Create a BOLT11 invoice. Body: { amountSats, memo?, expirySeconds? }
+// Shared by POST /api/invoice/create and the NWC bridge.
+export async function handleCreateInvoice(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "invoice:create");
+  if (denied) return denied;
+  const { amountSats, memo } = body;
+  const expirySeconds = body.expirySeconds ?? DEFAULT_EXPIRY_SECONDS;
+
+  if (!amountSats || typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0) {
+    return errorResponse("amountSats is required and must be a positive integer", "BAD_REQUEST");
+  }
+  if (typeof expirySeconds !== "number" || !Number.isInteger(expirySeconds) || expirySeconds <= 0) {
+    return errorResponse("expirySeconds must be a positive integer", "BAD_REQUEST");
+  }
+
+  const result = await wallet.createLightningInvoice({
+    amountSats,
+    memo: memo || undefined,
+    expirySeconds,
+  });
+
+  const encodedInvoice = result.invoice.encodedInvoice;
+
+  await Promise.all([
+    logEvent({
+      action: "invoice_created",
+      success: true,
+      amountSats,
+      memo,
+      invoice: encodedInvoice.slice(0, 30),
+    }),
+    trackPendingInvoice({
+      encodedInvoice,
+      amountSats,
+      memo,
+      expirySeconds,
+      paymentHash: result.invoice.paymentHash,
+    }),
+  ]);
+
+  return successResponse({ encodedInvoice });
+}
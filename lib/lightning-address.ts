@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// Lightning Addresses hosted by this proxy (LUD-16), for receiving tips at
+// <username>@<proxy domain>. Configured by admins via /api/lightning-addresses.
+
+const ADDRESSES_KEY = "spark:lightning_addresses";
+const USERNAME_PATTERN = /^[a-z0-9._-]{1,64}$/;
+
+export const DEFAULT_MIN_SENDABLE_SATS = 1;
+export const DEFAULT_MAX_SENDABLE_SATS = 100000;
+export const MAX_COMMENT_LENGTH = 280;
+export const INVOICE_EXPIRY_SECONDS = 600; // Short, since anyone can mint these
+
+export interface LightningAddress {
+  username: string;
+  minSendableSats: number;
+  maxSendableSats: number;
+  description?: string;
+  commentAllowed: number; // Max comment length, 0 = no comments
+  createdAt: string;
+}
+
+export function isValidUsername(username: string): boolean {
+  return USERNAME_PATTERN.test(username);
+}
+
+function parseAddress(raw: unknown): LightningAddress {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as LightningAddress);
+}
+
+export async function getLightningAddress(username: string): Promise<LightningAddress | null> {
+  const raw = await getRedis().hget(ADDRESSES_KEY, username.toLowerCase());
+  return raw ? parseAddress(raw) : null;
+}
+
+export async function listLightningAddresses(): Promise<LightningAddress[]> {
+  const all = await getRedis().hgetall(ADDRESSES_KEY);
+  if (!all) return [];
+  return Object.values(all)
+    .map(parseAddress)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// Creates or replaces the configuration for a username
+export async function saveLightningAddress(
+  address: Omit<LightningAddress, "createdAt">
+): Promise<LightningAddress> {
+  const saved: LightningAddress = { ...address, createdAt: new Date().toISOString() };
+  await getRedis().hset(ADDRESSES_KEY, { [address.username]: JSON.stringify(saved) });
+  return saved;
+}
+
+export async function deleteLightningAddress(username: string): Promise<boolean> {
+  const removed = await getRedis().hdel(ADDRESSES_KEY, username.toLowerCase());
+  return removed > 0;
+}
+
+// LUD-06 metadata. Must be byte-identical in the pay request and when hashing
+// it into the invoice, so it's always rebuilt from the stored config.
+export function buildMetadata(address: LightningAddress, host: string): string {
+  const identifier = `${address.username}@${host}`;
+  return JSON.stringify([
+    ["text/plain", address.description || `Payment to ${identifier}`],
+    ["text/identifier", identifier],
+  ]);
+}
+
+export function hashMetadata(metadata: string): string {
+  return createHash("sha256").update(metadata, "utf8").digest("hex");
+}
+
+// LNURL responses are read by arbitrary wallets, including browser-based ones
+export function lnurlResponse(body: unknown, status: number = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Access-Control-Allow-Origin": "*" },
+  });
+}
+
+export function lnurlError(reason: string, status: number = 400): NextResponse {
+  return lnurlResponse({ status: "ERROR", reason }, status);
+}
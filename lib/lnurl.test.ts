@@ -0,0 +1,185 @@
+import { createHash } from "crypto";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SparkWallet } from "@buildonspark/spark-sdk";
+import { successResponse } from "./spark";
+import { fetchPayRequest, handleLnurlPay, requestPayInvoice, type FetchFn } from "./lnurl";
+import type { AuthResult } from "./auth";
+import { makeInvoice } from "./test-invoices";
+
+// handlePay needs a wallet and Redis; these tests stop at the invoice it's given
+vi.mock("./payments", () => ({
+  handlePay: vi.fn(async (_wallet: unknown, _auth: unknown, body: { invoice: string }) =>
+    successResponse({ id: "payment-1", invoice: body.invoice })
+  ),
+}));
+
+// Stand-in LNURL server. The LNURL code only accepts https URLs, so requests
+// to https://lnurl.test are rewritten to this local http server.
+const HOST = "https://lnurl.test";
+const METADATA = JSON.stringify([["text/plain", "Pay alice"]]);
+
+type Reply = { status?: number; body: unknown };
+let routes: Record<string, (url: URL) => Reply> = {};
+let requested: URL[] = [];
+let server: Server;
+let baseUrl: string;
+
+const fetchFn: FetchFn = (input, init) =>
+  fetch(String(input).replace(HOST, baseUrl), init);
+
+function payRequest(name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    tag: "payRequest",
+    callback: `${HOST}/callback/${name}`,
+    minSendable: 10_000,
+    maxSendable: 100_000_000,
+    metadata: METADATA,
+    commentAllowed: 20,
+    ...overrides,
+  };
+}
+
+function invoiceFor(url: URL, metadata: string = METADATA): Reply {
+  const hash = createHash("sha256").update(metadata, "utf8").digest();
+  return { body: { pr: makeInvoice(Number(url.searchParams.get("amount")), { descriptionHash: hash }), routes: [] } };
+}
+
+const auth: AuthResult = {
+  role: "custom",
+  scopes: ["pay:lightning"],
+  tokenId: "test",
+  label: "test",
+  maxTxSats: 1_000_000,
+  dailyBudgetSats: 1_000_000,
+};
+const wallet = {} as SparkWallet;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, HOST);
+    requested.push(url);
+    const route = routes[url.pathname];
+    const reply = route ? route(url) : { status: 404, body: { status: "ERROR", reason: "Not found" } };
+    res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(reply.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requested = [];
+  routes = {
+    "/.well-known/lnurlp/alice": () => ({ body: payRequest("alice") }),
+    "/callback/alice": (url) => invoiceFor(url),
+  };
+});
+
+describe("fetchPayRequest", () => {
+  it("reads the pay request", async () => {
+    const result = await fetchPayRequest(`${HOST}/.well-known/lnurlp/alice`, fetchFn);
+    expect(result).toEqual({
+      callback: `${HOST}/callback/alice`,
+      minSendable: 10_000,
+      maxSendable: 100_000_000,
+      metadata: METADATA,
+      commentAllowed: 20,
+    });
+  });
+
+  it("surfaces an ERROR response from the server", async () => {
+    routes["/.well-known/lnurlp/alice"] = () => ({ body: { status: "ERROR", reason: "Unknown user" } });
+    const result = await fetchPayRequest(`${HOST}/.well-known/lnurlp/alice`, fetchFn);
+    expect(result).toEqual({ error: "LNURL server error: Unknown user", code: "LNURL_FETCH_ERROR" });
+  });
+
+  it("rejects a non-payRequest tag", async () => {
+    routes["/.well-known/lnurlp/alice"] = () => ({ body: payRequest("alice", { tag: "withdrawRequest" }) });
+    const result = await fetchPayRequest(`${HOST}/.well-known/lnurlp/alice`, fetchFn);
+    expect(result).toMatchObject({ code: "LNURL_INVALID_RESPONSE" });
+  });
+});
+
+describe("requestPayInvoice", () => {
+  it("passes the amount in msat and the comment to the callback", async () => {
+    const result = await requestPayInvoice(
+      payRequest("alice"),
+      1234,
+      "thanks",
+      fetchFn
+    );
+    expect(result).toMatchObject({ invoice: expect.stringMatching(/^lnbc/) });
+    const callback = requested.find((url) => url.pathname === "/callback/alice")!;
+    expect(callback.searchParams.get("amount")).toBe("1234000");
+    expect(callback.searchParams.get("comment")).toBe("thanks");
+  });
+
+  it("rejects an invoice for a different amount", async () => {
+    routes["/callback/alice"] = () => {
+      const hash = createHash("sha256").update(METADATA, "utf8").digest();
+      return { body: { pr: makeInvoice(999_000, { descriptionHash: hash }) } };
+    };
+    const result = await requestPayInvoice(payRequest("alice"), 1234, undefined, fetchFn);
+    expect(result).toMatchObject({ code: "LNURL_INVOICE_MISMATCH" });
+  });
+});
+
+describe("handleLnurlPay", () => {
+  const pay = (body: Record<string, unknown>) =>
+    handleLnurlPay(wallet, auth, { destination: "alice@lnurl.test", maxFeeSats: 10, ...body }, { fetchFn });
+
+  it("pays the invoice returned by the callback", async () => {
+    const response = await pay({ amountSats: 1000 });
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data.id).toBe("payment-1");
+    expect(data.invoice).toMatch(/^lnbc10000000p/);
+    expect(requested.map((url) => url.pathname)).toEqual(["/.well-known/lnurlp/alice", "/callback/alice"]);
+  });
+
+  it("rejects an invoice whose description hash doesn't match the metadata", async () => {
+    routes["/callback/alice"] = (url) => invoiceFor(url, JSON.stringify([["text/plain", "Someone else"]]));
+    const response = await pay({ amountSats: 1000 });
+    expect(response.status).toBe(502);
+    const body = await response.json();
+    expect(body.code).toBe("LNURL_INVOICE_MISMATCH");
+    expect(body.error).toMatch(/description hash/);
+  });
+
+  it("rejects amounts below minSendable without calling the callback", async () => {
+    const response = await pay({ amountSats: 9 });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe("INVALID_AMOUNT");
+    expect(body.error).toBe("amountSats must be between 10 and 100000 for this destination");
+    expect(requested.some((url) => url.pathname === "/callback/alice")).toBe(false);
+  });
+
+  it("rejects amounts above maxSendable", async () => {
+    const response = await pay({ amountSats: 100_001 });
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_AMOUNT");
+  });
+
+  it("returns 502 when the server responds with an error", async () => {
+    routes["/callback/alice"] = () => ({ status: 500, body: { status: "ERROR", reason: "Node offline" } });
+    const response = await pay({ amountSats: 1000 });
+    expect(response.status).toBe(502);
+    const body = await response.json();
+    expect(body.code).toBe("LNURL_FETCH_ERROR");
+    expect(body.error).toBe("LNURL server error: Node offline");
+  });
+
+  it("returns 502 when the server answers with a non-JSON error page", async () => {
+    routes["/.well-known/lnurlp/alice"] = () => ({ status: 503, body: undefined });
+    const response = await pay({ amountSats: 1000 });
+    expect(response.status).toBe(502);
+    expect((await response.json()).code).toBe("LNURL_INVALID_RESPONSE");
+  });
+});
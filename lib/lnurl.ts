@@ -0,0 +1,269 @@
+import { createHash } from "crypto";
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { bech32 } from "@scure/base";
+import { decode } from "light-bolt11-decoder";
+import { successResponse, errorResponse, requireScope } from "./spark";
+import { handlePay } from "./payments";
+import { checkMaxTx } from "./budget";
+import type { AuthResult } from "./auth";
+import { checkApproval, type SpendOptions } from "./approvals";
+import type { ErrorCode } from "./types";
+
+// LNURL-pay (LUD-06) and Lightning Address (LUD-16) client.
+
+export type FetchFn = typeof fetch;
+
+export interface LnurlPayOptions extends SpendOptions {
+  fetchFn?: FetchFn; // Injectable for tests (e.g. a local stand-in LNURL server)
+}
+
+export interface PayRequest {
+  callback: string;
+  minSendable: number; // millisats
+  maxSendable: number; // millisats
+  metadata: string;
+  commentAllowed: number;
+}
+
+type LnurlResult<T> = T | { error: string; code: ErrorCode };
+
+const LIGHTNING_ADDRESS_PATTERN = /^([a-z0-9._+-]+)@((?:[a-z0-9-]+\.)+[a-z0-9-]+)$/;
+const LNURL_MAX_LENGTH = 2000; // bech32 LNURLs exceed the usual 90-char limit
+const FETCH_TIMEOUT_MS = 10_000;
+
+function isError<T>(result: LnurlResult<T>): result is { error: string; code: ErrorCode } {
+  return typeof result === "object" && result !== null && "error" in result && "code" in result;
+}
+
+// HTTPS only, except for Tor hidden services (LUD-01)
+function isAllowedUrl(url: URL): boolean {
+  return url.protocol === "https:" || (url.protocol === "http:" && url.hostname.endsWith(".onion"));
+}
+
+// Turn a Lightning Address, bech32 LNURL, or lnurlp:// URL into the HTTPS URL to query
+export function resolveLnurlPayUrl(destination: string): LnurlResult<{ url: string }> {
+  const value = destination.trim().replace(/^lightning:/i, "");
+  const lower = value.toLowerCase();
+
+  const address = lower.match(LIGHTNING_ADDRESS_PATTERN);
+  if (address) {
+    return { url: `https://${address[2]}/.well-known/lnurlp/${address[1]}` };
+  }
+
+  let url: URL;
+  try {
+    if (lower.startsWith("lnurl1")) {
+      const { words } = bech32.decode(lower as `${string}1${string}`, LNURL_MAX_LENGTH);
+      url = new URL(Buffer.from(bech32.fromWords(words)).toString("utf8"));
+    } else if (lower.startsWith("lnurlp://")) {
+      const rest = value.slice("lnurlp://".length);
+      url = new URL(`${rest.split("/")[0].endsWith(".onion") ? "http" : "https"}://${rest}`);
+    } else {
+      return { error: "destination must be a Lightning Address (name@domain) or an LNURL", code: "BAD_REQUEST" };
+    }
+  } catch {
+    return { error: "Failed to decode LNURL", code: "BAD_REQUEST" };
+  }
+
+  if (!isAllowedUrl(url)) {
+    return { error: "LNURL must use https", code: "BAD_REQUEST" };
+  }
+  return { url: url.toString() };
+}
+
+async function fetchLnurlJson(url: string, fetchFn: FetchFn): Promise<LnurlResult<Record<string, unknown>>> {
+  let res: Response;
+  try {
+    res = await fetchFn(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (err) {
+    return {
+      error: `Failed to fetch ${url}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      code: "LNURL_FETCH_ERROR",
+    };
+  }
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    return { error: `LNURL server returned a non-JSON response (HTTP ${res.status})`, code: "LNURL_INVALID_RESPONSE" };
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "LNURL server returned an invalid response", code: "LNURL_INVALID_RESPONSE" };
+  }
+
+  const obj = body as Record<string, unknown>;
+  if (obj.status === "ERROR") {
+    return { error: `LNURL server error: ${String(obj.reason || "unknown reason")}`, code: "LNURL_FETCH_ERROR" };
+  }
+  if (!res.ok) {
+    return { error: `LNURL server returned HTTP ${res.status}`, code: "LNURL_FETCH_ERROR" };
+  }
+  return obj;
+}
+
+export async function fetchPayRequest(url: string, fetchFn: FetchFn = fetch): Promise<LnurlResult<PayRequest>> {
+  const body = await fetchLnurlJson(url, fetchFn);
+  if (isError(body)) return body;
+
+  const { tag, callback, minSendable, maxSendable, metadata, commentAllowed } = body;
+  if (tag !== "payRequest") {
+    return { error: `Expected an LNURL-pay endpoint, got tag "${String(tag)}"`, code: "LNURL_INVALID_RESPONSE" };
+  }
+  if (
+    typeof callback !== "string" ||
+    typeof minSendable !== "number" ||
+    typeof maxSendable !== "number" ||
+    typeof metadata !== "string"
+  ) {
+    return { error: "LNURL-pay response is missing callback, minSendable, maxSendable or metadata", code: "LNURL_INVALID_RESPONSE" };
+  }
+
+  let callbackUrl: URL;
+  try {
+    callbackUrl = new URL(callback);
+  } catch {
+    return { error: "LNURL-pay callback is not a valid URL", code: "LNURL_INVALID_RESPONSE" };
+  }
+  if (!isAllowedUrl(callbackUrl)) {
+    return { error: "LNURL-pay callback must use https", code: "LNURL_INVALID_RESPONSE" };
+  }
+
+  return {
+    callback,
+    minSendable,
+    maxSendable,
+    metadata,
+    commentAllowed: typeof commentAllowed === "number" ? commentAllowed : 0,
+  };
+}
+
+// Ask the callback for an invoice and check it's for exactly what we asked:
+// the same amount, and a description hash committing to the pay request metadata.
+export async function requestPayInvoice(
+  payRequest: PayRequest,
+  amountSats: number,
+  comment: string | undefined,
+  fetchFn: FetchFn = fetch
+): Promise<LnurlResult<{ invoice: string; successAction?: unknown }>> {
+  const amountMsat = amountSats * 1000;
+  const callback = new URL(payRequest.callback);
+  callback.searchParams.set("amount", String(amountMsat));
+  if (comment) callback.searchParams.set("comment", comment);
+
+  const body = await fetchLnurlJson(callback.toString(), fetchFn);
+  if (isError(body)) return body;
+
+  const { pr, successAction } = body;
+  if (typeof pr !== "string" || !pr) {
+    return { error: "LNURL-pay callback did not return an invoice", code: "LNURL_INVALID_RESPONSE" };
+  }
+
+  let invoiceAmountMsat: number | undefined;
+  let descriptionHash: string | undefined;
+  try {
+    // light-bolt11-decoder parses the `h` tag but doesn't type it
+    const sections = decode(pr).sections as { name: string; value?: unknown }[];
+    for (const section of sections) {
+      if (section.name === "amount" && section.value) invoiceAmountMsat = Number(section.value);
+      if (section.name === "description_hash") descriptionHash = String(section.value);
+    }
+  } catch {
+    return { error: "Failed to decode invoice from LNURL-pay callback", code: "LNURL_INVALID_RESPONSE" };
+  }
+
+  if (invoiceAmountMsat !== amountMsat) {
+    return {
+      error: `LNURL-pay invoice is for ${invoiceAmountMsat ?? "no"} msat, expected ${amountMsat} msat`,
+      code: "LNURL_INVOICE_MISMATCH",
+    };
+  }
+  const expectedHash = createHash("sha256").update(payRequest.metadata, "utf8").digest("hex");
+  if (descriptionHash?.toLowerCase() !== expectedHash) {
+    return { error: "LNURL-pay invoice description hash does not match the metadata", code: "LNURL_INVOICE_MISMATCH" };
+  }
+
+  return { invoice: pr, successAction };
+}
+
+// Pay a Lightning Address or LNURL-pay endpoint.
+// Body: { destination, amountSats, maxFeeSats, comment? }
+export async function handleLnurlPay(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: LnurlPayOptions = {}
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:lightning");
+  if (denied) return denied;
+
+  const { destination, amountSats, maxFeeSats, comment } = body;
+  const fetchFn = options.fetchFn ?? fetch;
+
+  if (!destination || typeof destination !== "string") {
+    return errorResponse("destination is required", "BAD_REQUEST");
+  }
+  if (!amountSats || typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0) {
+    return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+  }
+  if (maxFeeSats === undefined || typeof maxFeeSats !== "number" || maxFeeSats <= 0) {
+    return errorResponse("maxFeeSats must be a positive number", "BAD_REQUEST");
+  }
+  if (comment !== undefined && typeof comment !== "string") {
+    return errorResponse("comment must be a string", "BAD_REQUEST");
+  }
+
+  const resolved = resolveLnurlPayUrl(destination);
+  if (isError(resolved)) return errorResponse(resolved.error, resolved.code);
+  const tooLarge = checkMaxTx(amountSats, auth.maxTxSats);
+  if (tooLarge) return errorResponse(tooLarge, "TRANSACTION_TOO_LARGE", 403);
+
+  // Queue before fetching the invoice — it would expire while waiting for
+  // approval. Its payee is checked against the destination lists once paid.
+  const awaitingApproval = await checkApproval("lnurl", auth, body, amountSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  const payRequest = await fetchPayRequest(resolved.url, fetchFn);
+  if (isError(payRequest)) return errorResponse(payRequest.error, payRequest.code, 502);
+
+  const amountMsat = amountSats * 1000;
+  if (amountMsat < payRequest.minSendable || amountMsat > payRequest.maxSendable) {
+    return errorResponse(
+      `amountSats must be between ${Math.ceil(payRequest.minSendable / 1000)} and ${Math.floor(payRequest.maxSendable / 1000)} for this destination`,
+      "INVALID_AMOUNT"
+    );
+  }
+  if (comment && comment.length > payRequest.commentAllowed) {
+    return errorResponse(
+      payRequest.commentAllowed > 0
+        ? `comment must be at most ${payRequest.commentAllowed} characters for this destination`
+        : "This destination does not accept comments",
+      "BAD_REQUEST"
+    );
+  }
+
+  const requested = await requestPayInvoice(payRequest, amountSats, comment || undefined, fetchFn);
+  if (isError(requested)) return errorResponse(requested.error, requested.code, 502);
+
+  // The approval check above already covered this amount, and the invoice was
+  // verified to be for exactly amountSats
+  const response = await handlePay(
+    wallet,
+    auth,
+    { invoice: requested.invoice, maxFeeSats },
+    { approvedAmountSats: amountSats }
+  );
+  if (!response.ok) return response;
+
+  const { data } = await response.json();
+  return successResponse({
+    ...data,
+    invoice: requested.invoice,
+    successAction: requested.successAction,
+  });
+}
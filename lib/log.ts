@@ -1,4 +1,6 @@
 import { Redis } from "@upstash/redis";
+import { decode } from "light-bolt11-decoder";
+import { dispatchWebhooks } from "./webhooks";
 
 let _redis: Redis | null = null;
 
@@ -18,6 +20,12 @@ const LOG_TTL = 7 * 24 * 60 * 60; // 7 days
 const MAX_LOG_ENTRIES = 1000;
 const MAX_CHECK_PER_REQUEST = 5;
 const CLEANUP_CUTOFF_HOURS = 24;
+const PENDING_SCAN_COUNT = 100;
+const TRANSFER_PAGE_SIZE = 100;
+const MAX_TRANSFER_PAGES = 50;
+const TRANSFER_LOOKBACK_MS = 5 * 60 * 1000; // Slack for clock skew between proxy and Spark
+const UNTRACKED_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000; // How far back to search for a bare payment hash
+const DEFAULT_INVOICE_EXPIRY_SECONDS = 3600; // BOLT11 default when the invoice has no expiry field
 
 export type LogAction =
   | "invoice_created"
@@ -27,6 +35,14 @@ export type LogAction =
   | "invoice_paid"
   | "invoice_expired"
   | "l402_payment"
+  | "approval_requested"
+  | "approval_approved"
+  | "approval_rejected"
+  | "voucher_redeemed"
+  | "withdrawal_sent"
+  | "deposit_received"
+  | "token_transfer_sent"
+  | "batch_sent"
   | "error";
 
 export interface LogEntry {
@@ -39,6 +55,18 @@ export interface LogEntry {
   error?: string;
   url?: string;
   priceSats?: number;
+  feeSats?: number;
+  reservedSats?: number;
+  budgetAdjustmentSats?: number;
+  approvalId?: string;
+  paymentHash?: string;
+  voucherId?: string;
+  withdrawalId?: string;
+  depositAddress?: string;
+  txid?: string;
+  tokenIdentifier?: string;
+  tokenAmount?: string; // Base units
+  batchId?: string; // Ties together the entries of one /api/batch request
 }
 
 interface PendingInvoice {
@@ -47,6 +75,36 @@ interface PendingInvoice {
   memo?: string;
   createdAt: string;
   expirySeconds: number;
+  paymentHash?: string; // Missing on entries tracked before hash matching
+}
+
+// An incoming Lightning payment matched to an invoice by payment hash
+export interface ReceivedPayment {
+  transferId: string;
+  amountReceivedSats: number;
+  settledAt?: string;
+}
+
+export interface InvoiceStatus {
+  status: "pending" | "paid" | "expired";
+  paymentHash: string;
+  tracked: boolean; // Whether the proxy was tracking this invoice (created via /api/invoice/create)
+  amountSats?: number;
+  memo?: string;
+  createdAt?: string;
+  expiresAt?: string;
+  settledAt?: string;
+  amountReceivedSats?: number;
+  transferId?: string;
+}
+
+// Result of a full settlement pass (see settlePendingInvoices)
+export interface SettlementSummary {
+  checked: number;
+  paid: number;
+  expired: number;
+  stillPending: number;
+  transfersScanned: number;
 }
 
 export async function logEvent(
@@ -62,6 +120,7 @@ export async function logEvent(
   pipeline.ltrim(LOG_KEY, 0, MAX_LOG_ENTRIES - 1);
   pipeline.expire(LOG_KEY, LOG_TTL);
   await pipeline.exec();
+  await dispatchWebhooks(fullEntry);
 }
 
 export async function trackPendingInvoice(data: {
@@ -69,6 +128,7 @@ export async function trackPendingInvoice(data: {
   amountSats: number;
   memo?: string;
   expirySeconds: number;
+  paymentHash: string;
 }): Promise<void> {
   const redis = getRedis();
   const pending: PendingInvoice = {
@@ -79,6 +139,90 @@ export async function trackPendingInvoice(data: {
   await redis.hset(PENDING_KEY, { [key]: JSON.stringify(pending) });
 }
 
+function parsePendingInvoice(raw: unknown): PendingInvoice {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as PendingInvoice);
+}
+
+function getPendingPaymentHash(pending: PendingInvoice): string | undefined {
+  if (pending.paymentHash) return pending.paymentHash;
+  try {
+    const section = decode(pending.encodedInvoice).sections.find((s) => s.name === "payment_hash");
+    return section && "value" in section ? section.value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Payment hash of the Lightning receive request behind an incoming transfer, if any
+function getTransferPaymentHash(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transfer: any
+): string | undefined {
+  if (transfer?.transferDirection !== "INCOMING") return undefined;
+  const hash = transfer.userRequest?.invoice?.paymentHash;
+  return typeof hash === "string" ? hash.toLowerCase() : undefined;
+}
+
+// Incoming Lightning payments (by payment hash) created after `since`,
+// reading at most maxPages pages of the wallet's transfer history.
+async function getReceivedPayments(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  wallet: any,
+  since: Date,
+  pageSize: number,
+  maxPages: number,
+  stopAtHash?: string
+): Promise<{ payments: Map<string, ReceivedPayment>; scanned: number }> {
+  const payments = new Map<string, ReceivedPayment>();
+  let scanned = 0;
+  let offset = 0;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await wallet.getTransfers(pageSize, offset, since);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const transfers: any[] = result?.transfers || [];
+    scanned += transfers.length;
+    for (const transfer of transfers) {
+      const hash = getTransferPaymentHash(transfer);
+      if (!hash) continue;
+      const settled = transfer.updatedTime ?? transfer.createdTime;
+      payments.set(hash, {
+        transferId: transfer.id,
+        amountReceivedSats: Number(transfer.totalValue),
+        settledAt: settled ? new Date(settled).toISOString() : undefined,
+      });
+    }
+    if (stopAtHash && payments.has(stopAtHash)) break;
+    if (transfers.length < pageSize) break;
+    offset = result.offset ?? offset + transfers.length;
+  }
+
+  return { payments, scanned };
+}
+
+// Remove a pending invoice and log the outcome. The hdel result guards against
+// logging the same invoice twice when the lazy check and the cron overlap.
+async function resolvePendingInvoice(
+  key: string,
+  pending: PendingInvoice,
+  action: "invoice_paid" | "invoice_expired",
+  paymentHash?: string
+): Promise<boolean> {
+  const removed = await getRedis().hdel(PENDING_KEY, key);
+  if (removed === 0) return false;
+  await logEvent({
+    action,
+    success: true,
+    amountSats: pending.amountSats,
+    memo: pending.memo,
+    invoice: pending.encodedInvoice.slice(0, 30),
+    paymentHash,
+  });
+  return true;
+}
+
+// Lazy check run after wallet requests: looks at a few pending invoices
+// against the most recent transfers. settlePendingInvoices does a full pass.
 export async function checkPendingInvoices(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   wallet: any
@@ -88,15 +232,12 @@ export async function checkPendingInvoices(
   if (!all || Object.keys(all).length === 0) return;
 
   const now = Date.now();
-  const needsWalletCheck: [string, PendingInvoice][] = [];
+  const needsWalletCheck: [string, PendingInvoice, string][] = [];
 
   for (const [key, raw] of Object.entries(all)) {
     let pending: PendingInvoice;
     try {
-      pending =
-        typeof raw === "string"
-          ? JSON.parse(raw)
-          : (raw as unknown as PendingInvoice);
+      pending = parsePendingInvoice(raw);
     } catch {
       await redis.hdel(PENDING_KEY, key);
       continue;
@@ -106,63 +247,37 @@ export async function checkPendingInvoices(
     const expiresAt = createdAt + pending.expirySeconds * 1000;
     const cutoff = createdAt + CLEANUP_CUTOFF_HOURS * 60 * 60 * 1000;
 
+    // With the settlement cron configured, leave expiry to it — it checks
+    // for a late payment before marking an invoice expired
     if (now > expiresAt) {
-      await redis.hdel(PENDING_KEY, key);
-      await logEvent({
-        action: "invoice_expired",
-        success: true,
-        amountSats: pending.amountSats,
-        memo: pending.memo,
-        invoice: pending.encodedInvoice.slice(0, 30),
-      });
+      if (!process.env.CRON_SECRET) {
+        await resolvePendingInvoice(key, pending, "invoice_expired");
+      }
       continue;
     }
 
     if (now > cutoff) {
-      await redis.hdel(PENDING_KEY, key);
+      if (!process.env.CRON_SECRET) {
+        await redis.hdel(PENDING_KEY, key);
+      }
       continue;
     }
 
-    if (needsWalletCheck.length < MAX_CHECK_PER_REQUEST) {
-      needsWalletCheck.push([key, pending]);
+    const paymentHash = getPendingPaymentHash(pending);
+    if (paymentHash && needsWalletCheck.length < MAX_CHECK_PER_REQUEST) {
+      needsWalletCheck.push([key, pending, paymentHash]);
     }
   }
 
   if (needsWalletCheck.length === 0) return;
 
   try {
-    const result = await wallet.getTransfers(50, 0);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const transfers: any[] = result?.transfers || [];
-    const matchedTransferIds = new Set<string>();
-
-    for (const [key, pending] of needsWalletCheck) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const match = transfers.find((t: any) => {
-        if (matchedTransferIds.has(t.id)) return false;
-        if (Number(t.totalValue) !== pending.amountSats) return false;
-        const typeStr = String(t.type || "").toUpperCase();
-        // Accept Lightning receives or preimage swaps (Spark's internal type for LN)
-        if (
-          typeStr.includes("LIGHTNING") ||
-          typeStr.includes("PREIMAGE") ||
-          typeStr.includes("RECEIVE") ||
-          typeStr.includes("INCOMING")
-        )
-          return true;
-        return false;
-      });
+    const since = new Date(now - CLEANUP_CUTOFF_HOURS * 60 * 60 * 1000);
+    const { payments } = await getReceivedPayments(wallet, since, 50, 1);
 
-      if (match) {
-        matchedTransferIds.add(match.id);
-        await redis.hdel(PENDING_KEY, key);
-        await logEvent({
-          action: "invoice_paid",
-          success: true,
-          amountSats: pending.amountSats,
-          memo: pending.memo,
-          invoice: pending.encodedInvoice.slice(0, 30),
-        });
+    for (const [key, pending, paymentHash] of needsWalletCheck) {
+      if (payments.has(paymentHash.toLowerCase())) {
+        await resolvePendingInvoice(key, pending, "invoice_paid", paymentHash);
       }
     }
   } catch {
@@ -170,6 +285,186 @@ export async function checkPendingInvoices(
   }
 }
 
+// Full settlement pass over every pending invoice, for the cron route.
+// Reads spark:pending_invoices page by page, matches them against incoming
+// transfers by payment hash, then expires whatever is past its expiry.
+export async function settlePendingInvoices(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  wallet: any
+): Promise<SettlementSummary> {
+  const redis = getRedis();
+  const entries: [string, PendingInvoice][] = [];
+
+  let cursor: string | number = 0;
+  do {
+    const [next, fields]: [string | number, unknown[]] = await redis.hscan(PENDING_KEY, cursor, {
+      count: PENDING_SCAN_COUNT,
+    });
+    for (let i = 0; i < fields.length; i += 2) {
+      const key = String(fields[i]);
+      try {
+        entries.push([key, parsePendingInvoice(fields[i + 1])]);
+      } catch {
+        await redis.hdel(PENDING_KEY, key);
+      }
+    }
+    cursor = next;
+  } while (String(cursor) !== "0");
+
+  const summary: SettlementSummary = {
+    checked: entries.length,
+    paid: 0,
+    expired: 0,
+    stillPending: 0,
+    transfersScanned: 0,
+  };
+  if (entries.length === 0) return summary;
+
+  const oldest = Math.min(...entries.map(([, p]) => new Date(p.createdAt).getTime()));
+  const { payments, scanned } = await getReceivedPayments(
+    wallet,
+    new Date(oldest - TRANSFER_LOOKBACK_MS),
+    TRANSFER_PAGE_SIZE,
+    MAX_TRANSFER_PAGES
+  );
+  summary.transfersScanned = scanned;
+
+  const now = Date.now();
+  for (const [key, pending] of entries) {
+    const paymentHash = getPendingPaymentHash(pending);
+    if (paymentHash && payments.has(paymentHash.toLowerCase())) {
+      if (await resolvePendingInvoice(key, pending, "invoice_paid", paymentHash)) summary.paid++;
+      continue;
+    }
+
+    const expiresAt = new Date(pending.createdAt).getTime() + pending.expirySeconds * 1000;
+    if (now > expiresAt) {
+      if (await resolvePendingInvoice(key, pending, "invoice_expired", paymentHash)) summary.expired++;
+      continue;
+    }
+
+    summary.stillPending++;
+  }
+
+  return summary;
+}
+
+// Fields of a BOLT11 invoice needed for a status lookup, or null if it can't be decoded
+function decodeInvoiceDetails(invoice: string): {
+  paymentHash: string;
+  amountSats?: number;
+  memo?: string;
+  createdAt: string;
+  expirySeconds: number;
+} | null {
+  try {
+    const { sections } = decode(invoice);
+    const find = (name: string) => {
+      const section = sections.find((s) => s.name === name);
+      return section && "value" in section ? section.value : undefined;
+    };
+    const paymentHash = find("payment_hash");
+    const timestamp = find("timestamp");
+    if (typeof paymentHash !== "string" || typeof timestamp !== "number") return null;
+    const amount = find("amount");
+    const expiry = find("expiry");
+    const description = find("description");
+    return {
+      paymentHash,
+      amountSats: amount ? Math.ceil(Number(amount) / 1000) : undefined,
+      memo: typeof description === "string" && description ? description : undefined,
+      createdAt: new Date(timestamp * 1000).toISOString(),
+      expirySeconds: typeof expiry === "number" ? expiry : DEFAULT_INVOICE_EXPIRY_SECONDS,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function findPendingByHash(paymentHash: string): Promise<[string, PendingInvoice] | null> {
+  const all = await getRedis().hgetall(PENDING_KEY);
+  if (!all) return null;
+  for (const [key, raw] of Object.entries(all)) {
+    try {
+      const pending = parsePendingInvoice(raw);
+      if (getPendingPaymentHash(pending)?.toLowerCase() === paymentHash) return [key, pending];
+    } catch {
+      // Skip corrupt entries
+    }
+  }
+  return null;
+}
+
+// Status of a single invoice, looked up by encoded invoice or payment hash.
+// Uses the pending-invoice record when there is one and checks the wallet's
+// incoming transfers for the payment. Resolves the pending record (and logs
+// invoice_paid / invoice_expired) when the outcome is known.
+// Returns null for a bare payment hash the proxy knows nothing about, and
+// throws if the invoice can't be decoded.
+export async function getInvoiceStatus(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  wallet: any,
+  lookup: { invoice?: string; paymentHash?: string }
+): Promise<InvoiceStatus | null> {
+  let details: ReturnType<typeof decodeInvoiceDetails> = null;
+  if (lookup.invoice) {
+    details = decodeInvoiceDetails(lookup.invoice);
+    if (!details) throw new Error("Failed to decode invoice");
+  }
+  const paymentHash = (details?.paymentHash ?? lookup.paymentHash ?? "").toLowerCase();
+
+  let tracked: [string, PendingInvoice] | null = null;
+  if (lookup.invoice) {
+    const key = lookup.invoice.slice(0, 30);
+    const raw = await getRedis().hget(PENDING_KEY, key);
+    if (raw) tracked = [key, parsePendingInvoice(raw)];
+  } else {
+    tracked = await findPendingByHash(paymentHash);
+  }
+  const pending = tracked?.[1];
+
+  const createdAt = pending?.createdAt ?? details?.createdAt;
+  const expirySeconds = pending?.expirySeconds ?? details?.expirySeconds;
+  const since = createdAt
+    ? new Date(new Date(createdAt).getTime() - TRANSFER_LOOKBACK_MS)
+    : new Date(Date.now() - UNTRACKED_LOOKBACK_MS);
+
+  const { payments } = await getReceivedPayments(
+    wallet,
+    since,
+    TRANSFER_PAGE_SIZE,
+    MAX_TRANSFER_PAGES,
+    paymentHash
+  );
+  const payment = payments.get(paymentHash);
+
+  if (!payment && !pending && !details) return null;
+
+  const base = {
+    paymentHash,
+    tracked: !!pending,
+    amountSats: pending?.amountSats ?? details?.amountSats,
+    memo: pending?.memo ?? details?.memo,
+    createdAt,
+    expiresAt:
+      createdAt && expirySeconds !== undefined
+        ? new Date(new Date(createdAt).getTime() + expirySeconds * 1000).toISOString()
+        : undefined,
+  };
+
+  if (payment) {
+    if (tracked) await resolvePendingInvoice(tracked[0], tracked[1], "invoice_paid", paymentHash);
+    return { ...base, status: "paid", ...payment };
+  }
+
+  if (base.expiresAt && Date.now() > new Date(base.expiresAt).getTime()) {
+    if (tracked) await resolvePendingInvoice(tracked[0], tracked[1], "invoice_expired", paymentHash);
+    return { ...base, status: "expired" };
+  }
+
+  return { ...base, status: "pending" };
+}
+
 export async function getRecentLogs(limit: number = 50): Promise<LogEntry[]> {
   const redis = getRedis();
   const raw = await redis.lrange(LOG_KEY, 0, limit - 1);
@@ -0,0 +1,160 @@
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { WebSocketServer } from "ws";
+import {
+  connectRelay,
+  generateSecretKey,
+  getPublicKeyHex,
+  nip04Decrypt,
+  nip04Encrypt,
+  signEvent,
+  verifyEvent,
+  type NostrEvent,
+  type NostrFilter,
+} from "./nostr";
+
+// Stand-in relay: stores accepted events and answers REQ with the matches,
+// then EOSE. Behaviour can be changed per test through `relay`.
+const relay = {
+  events: [] as NostrEvent[],
+  sendEose: true,
+  rejectContent: "reject",
+  extra: [] as unknown[], // Raw events sent to every subscription before the stored ones
+  received: [] as unknown[][],
+};
+let server: WebSocketServer;
+let relayUrl: string;
+
+function matches(event: NostrEvent, filter: NostrFilter): boolean {
+  if (filter.kinds && !filter.kinds.includes(event.kind)) return false;
+  const pTags = event.tags.filter((tag) => tag[0] === "p").map((tag) => tag[1]);
+  if (filter["#p"] && !filter["#p"].some((p) => pTags.includes(p))) return false;
+  if (filter.since !== undefined && event.created_at < filter.since) return false;
+  return true;
+}
+
+beforeAll(async () => {
+  server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  server.on("connection", (socket) => {
+    socket.on("message", (raw) => {
+      const message = JSON.parse(String(raw));
+      relay.received.push(message);
+      const [type, ...rest] = message;
+      if (type === "EVENT") {
+        const event = rest[0] as NostrEvent;
+        const accepted = verifyEvent(event) && event.content !== relay.rejectContent;
+        if (accepted) relay.events.push(event);
+        socket.send(JSON.stringify(["OK", event.id, accepted, accepted ? "" : "blocked: rejected"]));
+      } else if (type === "REQ") {
+        const [subId, filter] = rest as [string, NostrFilter];
+        for (const event of relay.extra) socket.send(JSON.stringify(["EVENT", subId, event]));
+        for (const event of relay.events.filter((e) => matches(e, filter))) {
+          socket.send(JSON.stringify(["EVENT", subId, event]));
+        }
+        if (relay.sendEose) socket.send(JSON.stringify(["EOSE", subId]));
+      }
+    });
+  });
+  await new Promise((resolve) => server.once("listening", resolve));
+  relayUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  relay.events = [];
+  relay.sendEose = true;
+  relay.extra = [];
+  relay.received = [];
+});
+
+const alice = generateSecretKey();
+const bob = generateSecretKey();
+
+describe("events and NIP-04", () => {
+  it("signs events that verify, and rejects tampered ones", () => {
+    const event = signEvent(alice, { kind: 1, tags: [], content: "hello" });
+    expect(event.pubkey).toBe(getPublicKeyHex(alice));
+    expect(verifyEvent(event)).toBe(true);
+    expect(verifyEvent({ ...event, content: "hello!" })).toBe(false);
+  });
+
+  it("decrypts with the other side's key", () => {
+    const encrypted = nip04Encrypt(alice, getPublicKeyHex(bob), "secret message");
+    expect(encrypted).toMatch(/\?iv=/);
+    expect(nip04Decrypt(bob, getPublicKeyHex(alice), encrypted)).toBe("secret message");
+  });
+});
+
+describe("connectRelay", () => {
+  it("publishes an event and gets it back from a query", async () => {
+    const connection = await connectRelay(relayUrl);
+    try {
+      const event = signEvent(alice, { kind: 23194, tags: [["p", getPublicKeyHex(bob)]], content: "request" });
+      expect(await connection.publish(event)).toBe(true);
+
+      const found = await connection.query({ kinds: [23194], "#p": [getPublicKeyHex(bob)] });
+      expect(found).toEqual([event]);
+      expect(await connection.query({ kinds: [23195] })).toEqual([]);
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("resolves false when the relay rejects an event", async () => {
+    const connection = await connectRelay(relayUrl);
+    try {
+      const event = signEvent(alice, { kind: 1, tags: [], content: "reject" });
+      expect(await connection.publish(event)).toBe(false);
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("drops events with invalid signatures", async () => {
+    const valid = signEvent(alice, { kind: 1, tags: [], content: "valid" });
+    const forged = { ...signEvent(alice, { kind: 1, tags: [], content: "forged" }), content: "changed" };
+    relay.extra = [forged];
+    relay.events = [valid];
+
+    const connection = await connectRelay(relayUrl);
+    try {
+      expect(await connection.query({ kinds: [1] })).toEqual([valid]);
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("closes the subscription after EOSE", async () => {
+    const connection = await connectRelay(relayUrl);
+    try {
+      await connection.query({ kinds: [1] });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const req = relay.received.find((message) => message[0] === "REQ")!;
+      expect(relay.received).toContainEqual(["CLOSE", req[1]]);
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("returns what arrived if the relay never sends EOSE", async () => {
+    const event = signEvent(alice, { kind: 1, tags: [], content: "stored" });
+    relay.events = [event];
+    relay.sendEose = false;
+
+    const connection = await connectRelay(relayUrl, undefined, 200);
+    try {
+      expect(await connection.query({ kinds: [1] })).toEqual([event]);
+    } finally {
+      connection.close();
+    }
+  });
+
+  it("rejects when the relay can't be reached", async () => {
+    await expect(connectRelay("ws://127.0.0.1:1", undefined, 1000)).rejects.toThrow(
+      /Failed to connect|Timed out/
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { secp256k1, schnorr } from "@noble/curves/secp256k1";
+import WebSocket from "ws";
+
+// Minimal Nostr primitives for the NWC bridge: event signing (NIP-01),
+// NIP-04 encryption, and a short-lived relay connection.
+
+export interface NostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
+}
+
+export interface NostrFilter {
+  kinds?: number[];
+  "#p"?: string[];
+  since?: number;
+  limit?: number;
+}
+
+export function getPublicKeyHex(secretKey: string): string {
+  return Buffer.from(schnorr.getPublicKey(secretKey)).toString("hex");
+}
+
+export function generateSecretKey(): string {
+  return Buffer.from(secp256k1.utils.randomSecretKey()).toString("hex");
+}
+
+function getEventHash(event: Omit<NostrEvent, "id" | "sig">): string {
+  const serialized = JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]);
+  return createHash("sha256").update(serialized, "utf8").digest("hex");
+}
+
+export function signEvent(
+  secretKey: string,
+  template: { kind: number; tags: string[][]; content: string; created_at?: number }
+): NostrEvent {
+  const unsigned = {
+    pubkey: getPublicKeyHex(secretKey),
+    created_at: template.created_at ?? Math.floor(Date.now() / 1000),
+    kind: template.kind,
+    tags: template.tags,
+    content: template.content,
+  };
+  const id = getEventHash(unsigned);
+  const sig = Buffer.from(schnorr.sign(id, secretKey)).toString("hex");
+  return { ...unsigned, id, sig };
+}
+
+export function verifyEvent(event: NostrEvent): boolean {
+  try {
+    if (getEventHash(event) !== event.id) return false;
+    return schnorr.verify(event.sig, event.id, event.pubkey);
+  } catch {
+    return false;
+  }
+}
+
+// NIP-04: AES-256-CBC keyed with the x coordinate of the ECDH shared point
+function getSharedKey(secretKey: string, pubkey: string): Buffer {
+  return Buffer.from(secp256k1.getSharedSecret(secretKey, "02" + pubkey)).subarray(1, 33);
+}
+
+export function nip04Encrypt(secretKey: string, pubkey: string, plaintext: string): string {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-256-cbc", getSharedKey(secretKey, pubkey), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return `${ciphertext.toString("base64")}?iv=${iv.toString("base64")}`;
+}
+
+export function nip04Decrypt(secretKey: string, pubkey: string, content: string): string {
+  const [ciphertext, iv] = content.split("?iv=");
+  if (!ciphertext || !iv) throw new Error("Invalid NIP-04 payload");
+  const decipher = createDecipheriv("aes-256-cbc", getSharedKey(secretKey, pubkey), Buffer.from(iv, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+// The subset of WebSocket the relay client uses, so tests can pass a stand-in
+export interface RelaySocket {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+}
+
+export type SocketFactory = (url: string) => RelaySocket;
+
+// The ws package, since Node 20 has no global WebSocket
+const defaultSocketFactory: SocketFactory = (url) => new WebSocket(url) as unknown as RelaySocket;
+
+const RELAY_TIMEOUT_MS = 8000;
+
+export interface RelayConnection {
+  // Stored events matching the filter, up to EOSE
+  query(filter: NostrFilter): Promise<NostrEvent[]>;
+  // Resolves true once the relay accepts the event
+  publish(event: NostrEvent): Promise<boolean>;
+  close(): void;
+}
+
+export async function connectRelay(
+  url: string,
+  socketFactory: SocketFactory = defaultSocketFactory,
+  timeoutMs: number = RELAY_TIMEOUT_MS
+): Promise<RelayConnection> {
+  const socket = socketFactory(url);
+  const subscriptions = new Map<string, { events: NostrEvent[]; done: (events: NostrEvent[]) => void }>();
+  const pendingOks = new Map<string, (accepted: boolean) => void>();
+
+  socket.onmessage = (message) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(String(message.data));
+    } catch {
+      return;
+    }
+    if (!Array.isArray(data)) return;
+
+    const [type, ...rest] = data;
+    if (type === "EVENT") {
+      const [subId, event] = rest as [string, NostrEvent];
+      const sub = subscriptions.get(subId);
+      if (sub && event && verifyEvent(event)) sub.events.push(event);
+    } else if (type === "EOSE" || type === "CLOSED") {
+      const [subId] = rest as [string];
+      const sub = subscriptions.get(subId);
+      if (sub) sub.done(sub.events);
+    } else if (type === "OK") {
+      const [eventId, accepted] = rest as [string, boolean];
+      pendingOks.get(eventId)?.(accepted === true);
+    }
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out connecting to ${url}`)), timeoutMs);
+    socket.onopen = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to connect to ${url}`));
+    };
+  });
+
+  return {
+    query(filter) {
+      const subId = randomBytes(8).toString("hex");
+      return new Promise((resolve) => {
+        const finish = (events: NostrEvent[]) => {
+          clearTimeout(timer);
+          subscriptions.delete(subId);
+          if (socket.readyState === 1) socket.send(JSON.stringify(["CLOSE", subId]));
+          resolve(events);
+        };
+        // Return whatever arrived if the relay never sends EOSE
+        const timer = setTimeout(() => finish(subscriptions.get(subId)?.events ?? []), timeoutMs);
+        subscriptions.set(subId, { events: [], done: finish });
+        socket.send(JSON.stringify(["REQ", subId, filter]));
+      });
+    },
+
+    publish(event) {
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          pendingOks.delete(event.id);
+          resolve(false);
+        }, timeoutMs);
+        pendingOks.set(event.id, (accepted) => {
+          clearTimeout(timer);
+          pendingOks.delete(event.id);
+          resolve(accepted);
+        });
+        socket.send(JSON.stringify(["EVENT", event]));
+      });
+    },
+
+    close() {
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    },
+  };
+}
@@ -0,0 +1,476 @@
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { Redis } from "@upstash/redis";
+import { decode } from "light-bolt11-decoder";
+import { getAuthByTokenId, hasScope, missingScopeMessage, type AuthResult, type TokenScope } from "./auth";
+import { handlePay } from "./payments";
+import { handleCreateInvoice } from "./invoices";
+import { getInvoiceStatus } from "./log";
+import { getLightningFeeSats } from "./spark";
+import { checkRateLimit, type RateLimitClass } from "./rate-limit";
+import {
+  connectRelay,
+  generateSecretKey,
+  getPublicKeyHex,
+  nip04Decrypt,
+  nip04Encrypt,
+  signEvent,
+  type NostrEvent,
+  type SocketFactory,
+} from "./nostr";
+import type { ApiResponse, ErrorCode } from "./types";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// Nostr Wallet Connect (NIP-47) bridge. Each connection maps an NWC client key
+// to an API token, and requests run through the same handlers as the REST
+// routes under that token's role, budget and limits. Serverless functions
+// can't hold a relay subscription open, so the relay is polled by a cron route.
+
+const CONNECTIONS_KEY = "spark:nwc_connections";
+const LAST_SYNC_KEY = "spark:nwc_last_sync";
+const PROCESSED_PREFIX = "spark:nwc_event";
+const PROCESSED_TTL = 24 * 60 * 60;
+const SYNC_OVERLAP_SECONDS = 120; // Re-read a little before the last sync to catch late events
+const FIRST_SYNC_LOOKBACK_SECONDS = 10 * 60;
+const MAX_LIST_TRANSACTIONS = 50;
+
+const KIND_INFO = 13194;
+const KIND_REQUEST = 23194;
+const KIND_RESPONSE = 23195;
+
+export const NWC_METHODS = [
+  "pay_invoice",
+  "make_invoice",
+  "get_balance",
+  "list_transactions",
+  "lookup_invoice",
+  "get_info",
+] as const;
+
+type NwcMethod = (typeof NWC_METHODS)[number];
+
+// Scope the connection's token needs for each method (null = none)
+const NWC_METHOD_SCOPES: Record<NwcMethod, TokenScope | null> = {
+  pay_invoice: "pay:lightning",
+  make_invoice: "invoice:create",
+  get_balance: "balance:read",
+  list_transactions: "transactions:read",
+  lookup_invoice: "invoice:read",
+  get_info: null,
+};
+
+// Rate-limit class for each method, counted against the connection's token
+// like the HTTP routes
+const NWC_METHOD_RATE_CLASSES: Record<NwcMethod, RateLimitClass> = {
+  pay_invoice: "payment",
+  make_invoice: "invoice",
+  get_balance: "read",
+  list_transactions: "read",
+  lookup_invoice: "read",
+  get_info: "read",
+};
+
+type NwcErrorCode =
+  | "RATE_LIMITED"
+  | "NOT_IMPLEMENTED"
+  | "INSUFFICIENT_BALANCE"
+  | "QUOTA_EXCEEDED"
+  | "RESTRICTED"
+  | "UNAUTHORIZED"
+  | "INTERNAL"
+  | "PAYMENT_FAILED"
+  | "NOT_FOUND"
+  | "OTHER";
+
+type NwcResult =
+  | { result: Record<string, unknown> }
+  | { error: { code: NwcErrorCode; message: string } };
+
+export interface NwcConnection {
+  clientPubkey: string;
+  tokenId: string;
+  label?: string;
+  createdAt: string;
+}
+
+export interface NwcConfig {
+  secretKey: string;
+  servicePubkey: string;
+  relayUrl: string;
+}
+
+export interface NwcSyncSummary {
+  received: number;
+  processed: number;
+  skipped: number;
+}
+
+export function getNwcConfig(): NwcConfig | null {
+  const secretKey = process.env.NWC_SECRET_KEY;
+  const relayUrl = process.env.NWC_RELAY_URL;
+  if (!secretKey || !/^[0-9a-f]{64}$/i.test(secretKey) || !relayUrl) return null;
+  return { secretKey, servicePubkey: getPublicKeyHex(secretKey), relayUrl };
+}
+
+function parseConnection(raw: unknown): NwcConnection {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as NwcConnection);
+}
+
+// Returns the connection string — the client secret in it is not stored
+export async function createNwcConnection(
+  config: NwcConfig,
+  tokenId: string,
+  label?: string
+): Promise<{ connection: NwcConnection; connectionString: string }> {
+  const clientSecret = generateSecretKey();
+  const connection: NwcConnection = {
+    clientPubkey: getPublicKeyHex(clientSecret),
+    tokenId,
+    label,
+    createdAt: new Date().toISOString(),
+  };
+  await getRedis().hset(CONNECTIONS_KEY, { [connection.clientPubkey]: JSON.stringify(connection) });
+
+  const connectionString =
+    `nostr+walletconnect://${config.servicePubkey}` +
+    `?relay=${encodeURIComponent(config.relayUrl)}&secret=${clientSecret}`;
+  return { connection, connectionString };
+}
+
+export async function listNwcConnections(tokenId?: string): Promise<NwcConnection[]> {
+  const all = await getRedis().hgetall(CONNECTIONS_KEY);
+  if (!all) return [];
+  return Object.values(all)
+    .map(parseConnection)
+    .filter((c) => !tokenId || c.tokenId === tokenId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getNwcConnection(clientPubkey: string): Promise<NwcConnection | null> {
+  const raw = await getRedis().hget(CONNECTIONS_KEY, clientPubkey);
+  return raw ? parseConnection(raw) : null;
+}
+
+export async function deleteNwcConnection(clientPubkey: string): Promise<boolean> {
+  return (await getRedis().hdel(CONNECTIONS_KEY, clientPubkey)) > 0;
+}
+
+function toNwcError(code: ErrorCode, message: string, method: NwcMethod): NwcResult {
+  switch (code) {
+    case "UNAUTHORIZED":
+    case "INSUFFICIENT_SCOPE":
+    case "DESTINATION_NOT_ALLOWED":
+      return { error: { code: "RESTRICTED", message } };
+    case "BUDGET_EXCEEDED":
+    case "TRANSACTION_TOO_LARGE":
+      return { error: { code: "QUOTA_EXCEEDED", message } };
+    case "WALLET_ERROR":
+      return { error: { code: method === "pay_invoice" ? "PAYMENT_FAILED" : "INTERNAL", message } };
+    case "INTERNAL_ERROR":
+      return { error: { code: "INTERNAL", message } };
+    default:
+      return { error: { code: "OTHER", message } };
+  }
+}
+
+// Run a REST handler and turn its response (or thrown wallet error) into data or an NWC error
+async function callHandler(
+  method: NwcMethod,
+  run: () => Promise<NextResponse>
+): Promise<{ data: Record<string, unknown> } | NwcResult> {
+  let outcome: ApiResponse<Record<string, unknown>>;
+  try {
+    outcome = await (await run()).json();
+  } catch (err) {
+    const message = err instanceof Error ? err.message || "Unknown wallet error" : "Unknown error";
+    return toNwcError("WALLET_ERROR", message, method);
+  }
+  if (!outcome.success) return toNwcError(outcome.code, outcome.error, method);
+  return { data: outcome.data };
+}
+
+function toUnixSeconds(value: string | Date | undefined): number | undefined {
+  return value ? Math.floor(new Date(value).getTime() / 1000) : undefined;
+}
+
+function describeInvoice(invoice: string) {
+  const sections = decode(invoice).sections as { name: string; value?: unknown }[];
+  const find = (name: string) => sections.find((s) => s.name === name)?.value;
+  const createdAt = Number(find("timestamp"));
+  return {
+    invoice,
+    description: typeof find("description") === "string" ? (find("description") as string) : undefined,
+    payment_hash: String(find("payment_hash") ?? ""),
+    amount: find("amount") ? Number(find("amount")) : 0,
+    created_at: createdAt,
+    expires_at: createdAt + Number(find("expiry") ?? 3600),
+  };
+}
+
+async function runNwcMethod(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  method: NwcMethod,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params: any
+): Promise<NwcResult> {
+  const scope = NWC_METHOD_SCOPES[method];
+  if (scope && !hasScope(auth, scope)) {
+    return { error: { code: "RESTRICTED", message: missingScopeMessage(scope) } };
+  }
+
+  switch (method) {
+    case "pay_invoice": {
+      const invoice = params?.invoice;
+      if (typeof invoice !== "string") {
+        return { error: { code: "OTHER", message: "invoice is required" } };
+      }
+      let invoiceMsat: number;
+      try {
+        invoiceMsat = describeInvoice(invoice).amount;
+      } catch {
+        return { error: { code: "OTHER", message: "Failed to decode invoice" } };
+      }
+      // params.amount only applies to amountless invoices
+      const amountSats = invoiceMsat ? undefined : Math.ceil(Number(params?.amount) / 1000) || undefined;
+      const paySats = amountSats ?? Math.ceil(invoiceMsat / 1000);
+      const maxFeeSats = Math.max(10, Math.ceil(paySats * 0.01));
+
+      const outcome = await callHandler(method, () =>
+        handlePay(wallet, auth, { invoice, maxFeeSats, amountSats })
+      );
+      if (!("data" in outcome)) return outcome;
+      const { data } = outcome;
+      if (data.status === "awaiting_approval") {
+        return {
+          error: {
+            code: "RESTRICTED",
+            message: `Payment is waiting for admin approval (approvalId ${String(data.approvalId)})`,
+          },
+        };
+      }
+      const feeSats = getLightningFeeSats(data);
+      return {
+        result: {
+          preimage: typeof data.paymentPreimage === "string" ? data.paymentPreimage : "",
+          fees_paid: feeSats !== undefined ? feeSats * 1000 : undefined,
+        },
+      };
+    }
+
+    case "make_invoice": {
+      const amountMsat = Number(params?.amount);
+      if (!Number.isFinite(amountMsat) || amountMsat < 1000) {
+        return { error: { code: "OTHER", message: "amount must be at least 1000 msat" } };
+      }
+      const outcome = await callHandler(method, () =>
+        handleCreateInvoice(wallet, auth, {
+          amountSats: Math.floor(amountMsat / 1000),
+          memo: typeof params?.description === "string" ? params.description : undefined,
+          expirySeconds: typeof params?.expiry === "number" ? params.expiry : undefined,
+        })
+      );
+      if (!("data" in outcome)) return outcome;
+      return {
+        result: { type: "incoming", state: "pending", ...describeInvoice(String(outcome.data.encodedInvoice)) },
+      };
+    }
+
+    case "get_balance": {
+      const { balance } = await wallet.getBalance();
+      return { result: { balance: Number(balance) * 1000 } };
+    }
+
+    case "list_transactions": {
+      const limit = Math.min(Number(params?.limit) || 20, MAX_LIST_TRANSACTIONS);
+      const offset = Number(params?.offset) || 0;
+      const from = typeof params?.from === "number" ? new Date(params.from * 1000) : undefined;
+      const until = typeof params?.until === "number" ? params.until : undefined;
+      const result = await wallet.getTransfers(limit, offset, from);
+
+      const transactions = result.transfers
+        .map((t) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const userInvoice = (t.userRequest as any)?.invoice;
+          return {
+            type: t.transferDirection === "INCOMING" ? "incoming" : "outgoing",
+            state: t.status === "TRANSFER_STATUS_COMPLETED" ? "settled" : "pending",
+            invoice: userInvoice?.encodedInvoice,
+            payment_hash: userInvoice?.paymentHash ?? "",
+            amount: Number(t.totalValue) * 1000,
+            fees_paid: 0,
+            created_at: toUnixSeconds(t.createdTime) ?? 0,
+            settled_at: t.status === "TRANSFER_STATUS_COMPLETED" ? toUnixSeconds(t.updatedTime) : undefined,
+          };
+        })
+        .filter((tx) => !params?.type || tx.type === params.type)
+        .filter((tx) => until === undefined || tx.created_at <= until);
+      return { result: { transactions } };
+    }
+
+    case "lookup_invoice": {
+      const invoice = typeof params?.invoice === "string" ? params.invoice : undefined;
+      const paymentHash = typeof params?.payment_hash === "string" ? params.payment_hash : undefined;
+      if (!invoice && !paymentHash) {
+        return { error: { code: "OTHER", message: "payment_hash or invoice is required" } };
+      }
+      let status;
+      try {
+        status = await getInvoiceStatus(wallet, { invoice, paymentHash });
+      } catch {
+        return { error: { code: "OTHER", message: "Failed to decode invoice" } };
+      }
+      if (!status) return { error: { code: "NOT_FOUND", message: "Invoice not found" } };
+      return {
+        result: {
+          type: "incoming",
+          state: status.status === "paid" ? "settled" : status.status,
+          invoice,
+          description: status.memo,
+          payment_hash: status.paymentHash,
+          amount: (status.amountReceivedSats ?? status.amountSats ?? 0) * 1000,
+          created_at: toUnixSeconds(status.createdAt),
+          expires_at: toUnixSeconds(status.expiresAt),
+          settled_at: toUnixSeconds(status.settledAt),
+        },
+      };
+    }
+
+    case "get_info":
+      return {
+        result: {
+          alias: "sparkbtcbot-proxy",
+          network: (process.env.SPARK_NETWORK || "MAINNET").toLowerCase(),
+          methods: NWC_METHODS.filter((m) => {
+            const needed = NWC_METHOD_SCOPES[m];
+            return !needed || hasScope(auth, needed);
+          }),
+        },
+      };
+  }
+}
+
+// Handle one request event. Returns the signed response, or null to ignore it.
+export async function handleNwcRequest(
+  wallet: SparkWallet,
+  config: NwcConfig,
+  event: NostrEvent
+): Promise<NostrEvent | null> {
+  const expiration = event.tags.find((t) => t[0] === "expiration")?.[1];
+  if (expiration && Number(expiration) < Math.floor(Date.now() / 1000)) return null;
+
+  let request: { method?: string; params?: unknown };
+  try {
+    request = JSON.parse(nip04Decrypt(config.secretKey, event.pubkey, event.content));
+  } catch {
+    return null; // Not for us, or not decryptable
+  }
+
+  const method = request.method ?? "";
+  let response: NwcResult;
+  const connection = await getNwcConnection(event.pubkey);
+  const auth = connection ? await getAuthByTokenId(connection.tokenId) : null;
+
+  if (!auth) {
+    response = { error: { code: "UNAUTHORIZED", message: "Unknown or revoked connection" } };
+  } else if (!(NWC_METHODS as readonly string[]).includes(method)) {
+    response = { error: { code: "NOT_IMPLEMENTED", message: `Method ${method} is not supported` } };
+  } else {
+    const rateClass = NWC_METHOD_RATE_CLASSES[method as NwcMethod];
+    const limit = await checkRateLimit(auth.tokenId, auth.rateLimits, rateClass);
+    if (!limit.allowed) {
+      response = {
+        error: {
+          code: "RATE_LIMITED",
+          message: `Too many ${rateClass} requests per minute — limit is ${limit.limit}. Retry in ${limit.retryAfterSeconds}s`,
+        },
+      };
+    } else {
+      try {
+        response = await runNwcMethod(wallet, auth, method as NwcMethod, request.params);
+      } catch (err) {
+        response = {
+          error: { code: "INTERNAL", message: err instanceof Error ? err.message : "Unknown error" },
+        };
+      }
+    }
+  }
+
+  const content = JSON.stringify({ result_type: method, ...response });
+  return signEvent(config.secretKey, {
+    kind: KIND_RESPONSE,
+    tags: [
+      ["p", event.pubkey],
+      ["e", event.id],
+    ],
+    content: nip04Encrypt(config.secretKey, event.pubkey, content),
+  });
+}
+
+// One polling pass: read new requests from the relay, answer them, disconnect
+export async function syncNwcRelay(
+  wallet: SparkWallet,
+  config: NwcConfig,
+  socketFactory?: SocketFactory
+): Promise<NwcSyncSummary> {
+  const redis = getRedis();
+  const startedAt = Math.floor(Date.now() / 1000);
+  const lastSync = Number(await redis.get(LAST_SYNC_KEY)) || startedAt - FIRST_SYNC_LOOKBACK_SECONDS;
+  const summary: NwcSyncSummary = { received: 0, processed: 0, skipped: 0 };
+
+  const relay = await connectRelay(config.relayUrl, socketFactory);
+  try {
+    // Replaceable info event advertising what this wallet service supports
+    await relay.publish(
+      signEvent(config.secretKey, {
+        kind: KIND_INFO,
+        tags: [["encryption", "nip04"]],
+        content: NWC_METHODS.join(" "),
+      })
+    );
+
+    const events = await relay.query({
+      kinds: [KIND_REQUEST],
+      "#p": [config.servicePubkey],
+      since: lastSync - SYNC_OVERLAP_SECONDS,
+    });
+    summary.received = events.length;
+
+    for (const event of events.sort((a, b) => a.created_at - b.created_at)) {
+      // Each request is answered at most once, however many syncs see it
+      const claimed = await redis.set(`${PROCESSED_PREFIX}:${event.id}`, "1", {
+        nx: true,
+        ex: PROCESSED_TTL,
+      });
+      if (claimed === null) {
+        summary.skipped++;
+        continue;
+      }
+
+      const response = await handleNwcRequest(wallet, config, event);
+      if (!response) {
+        summary.skipped++;
+        continue;
+      }
+      await relay.publish(response);
+      summary.processed++;
+    }
+
+    await redis.set(LAST_SYNC_KEY, startedAt);
+  } finally {
+    relay.close();
+  }
+
+  return summary;
+}
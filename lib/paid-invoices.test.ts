@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  claimPaymentHash,
+  describePaidInvoice,
+  markPaymentHashPaid,
+  releasePaymentHash,
+} from "./paid-invoices";
+
+// In-memory stand-in for the SET NX / GET / DEL calls. Like Upstash, GET
+// returns stored JSON already parsed.
+const store = vi.hoisted(() => new Map<string, string>());
+const redis = vi.hoisted(() => ({
+  set: vi.fn(async (key: string, value: string, options: { nx?: boolean; ex?: number }) => {
+    if (options.nx && store.has(key)) return null;
+    store.set(key, value);
+    return "OK";
+  }),
+  get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+  del: vi.fn(async (key: string) => Number(store.delete(key))),
+}));
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn(function () {
+    return redis;
+  }),
+}));
+
+const HASH = "AB".repeat(32);
+const claim = (source: "pay" | "l402" | "batch" = "pay") =>
+  claimPaymentHash({ paymentHash: HASH, source, amountSats: 1000, invoice: "lnbc10u1p".padEnd(60, "x") });
+
+beforeEach(() => {
+  store.clear();
+  vi.clearAllMocks();
+});
+
+describe("claimPaymentHash", () => {
+  it("claims a hash once, case-insensitively", async () => {
+    expect(await claim()).toEqual({ claimed: true });
+    expect(redis.set).toHaveBeenCalledWith(`spark:paid_invoice:${HASH.toLowerCase()}`, expect.any(String), {
+      nx: true,
+      ex: 600,
+    });
+
+    const second = await claimPaymentHash({
+      paymentHash: HASH.toLowerCase(),
+      source: "l402",
+      amountSats: 1000,
+      invoice: "lnbc...",
+    });
+    expect(second).toEqual({
+      claimed: false,
+      record: {
+        paymentHash: HASH.toLowerCase(),
+        status: "in_flight",
+        source: "pay",
+        amountSats: 1000,
+        invoice: "lnbc10u1p".padEnd(30, "x"),
+        createdAt: expect.any(String),
+      },
+    });
+    if (!second.claimed) {
+      expect(describePaidInvoice(second.record)).toBe("Invoice is already being paid by another request");
+    }
+  });
+
+  it("keeps a paid hash for 30 days with the payment's details", async () => {
+    await claim();
+    await markPaymentHashPaid(HASH, { paymentId: "payment-1", paymentStatus: "COMPLETED" });
+    expect(redis.set).toHaveBeenLastCalledWith(`spark:paid_invoice:${HASH.toLowerCase()}`, expect.any(String), {
+      ex: 2_592_000,
+    });
+
+    const result = await claim("batch");
+    expect(result).toMatchObject({
+      claimed: false,
+      record: { status: "paid", source: "pay", paymentId: "payment-1", paymentStatus: "COMPLETED" },
+    });
+    if (!result.claimed) {
+      expect(describePaidInvoice(result.record)).toBe(`Invoice was already paid at ${result.record.paidAt}`);
+    }
+  });
+
+  it("doesn't mark a hash that was never claimed", async () => {
+    await markPaymentHashPaid(HASH, { paymentId: "payment-1" });
+    expect(store.size).toBe(0);
+  });
+
+  it("lets a released hash be paid again", async () => {
+    await claim();
+    await releasePaymentHash(HASH);
+    expect(await claim()).toEqual({ claimed: true });
+  });
+});
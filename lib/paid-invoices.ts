@@ -0,0 +1,105 @@
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// One key per BOLT11 payment hash this proxy has paid or is paying
+const PAID_INVOICE_PREFIX = "spark:paid_invoice";
+const IN_FLIGHT_TTL = 10 * 60; // 10 minutes — outlives any single request
+const PAID_TTL = 30 * 24 * 60 * 60; // 30 days — longer than any sane invoice expiry
+
+export type PaidInvoiceStatus = "in_flight" | "paid";
+
+export interface PaidInvoiceRecord {
+  paymentHash: string;
+  status: PaidInvoiceStatus;
+  source: "pay" | "l402" | "batch";
+  amountSats: number;
+  invoice: string; // First 30 chars, same as log entries
+  createdAt: string;
+  paidAt?: string;
+  paymentId?: string;
+  paymentStatus?: string;
+}
+
+export type PaymentHashClaim =
+  | { claimed: true }
+  | { claimed: false; record: PaidInvoiceRecord };
+
+function getKey(paymentHash: string): string {
+  return `${PAID_INVOICE_PREFIX}:${paymentHash.toLowerCase()}`;
+}
+
+// Atomically mark a payment hash as in flight (SET NX). Fails with the
+// existing record if the hash was already paid or is being paid.
+export async function claimPaymentHash(data: {
+  paymentHash: string;
+  source: PaidInvoiceRecord["source"];
+  amountSats: number;
+  invoice: string;
+}): Promise<PaymentHashClaim> {
+  const redis = getRedis();
+  const key = getKey(data.paymentHash);
+  const record: PaidInvoiceRecord = {
+    paymentHash: data.paymentHash.toLowerCase(),
+    status: "in_flight",
+    source: data.source,
+    amountSats: data.amountSats,
+    invoice: data.invoice.slice(0, 30),
+    createdAt: new Date().toISOString(),
+  };
+
+  const set = await redis.set(key, JSON.stringify(record), {
+    nx: true,
+    ex: IN_FLIGHT_TTL,
+  });
+  if (set) return { claimed: true };
+
+  const raw = await redis.get(key);
+  if (!raw) {
+    // Expired between SET and GET — try again
+    return claimPaymentHash(data);
+  }
+  const existing: PaidInvoiceRecord =
+    typeof raw === "string" ? JSON.parse(raw) : (raw as PaidInvoiceRecord);
+  return { claimed: false, record: existing };
+}
+
+export async function markPaymentHashPaid(
+  paymentHash: string,
+  payment: { paymentId?: string; paymentStatus?: string }
+): Promise<void> {
+  const redis = getRedis();
+  const key = getKey(paymentHash);
+  const raw = await redis.get(key);
+  if (!raw) return;
+  const record: PaidInvoiceRecord =
+    typeof raw === "string" ? JSON.parse(raw) : (raw as PaidInvoiceRecord);
+  const paid: PaidInvoiceRecord = {
+    ...record,
+    ...payment,
+    status: "paid",
+    paidAt: new Date().toISOString(),
+  };
+  await redis.set(key, JSON.stringify(paid), { ex: PAID_TTL });
+}
+
+// Compensating delete if the payment failed after the hash was claimed.
+export async function releasePaymentHash(paymentHash: string): Promise<void> {
+  await getRedis().del(getKey(paymentHash));
+}
+
+export function describePaidInvoice(record: PaidInvoiceRecord): string {
+  return record.status === "paid"
+    ? `Invoice was already paid at ${record.paidAt}`
+    : "Invoice is already being paid by another request";
+}
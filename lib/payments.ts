@@ -0,0 +1,235 @@
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { decode } from "light-bolt11-decoder";
+import { successResponse, errorResponse, requireScope, getLightningFeeSats } from "./spark";
+import { reserveSpend, releaseSpend, adjustSpend, checkMaxTx } from "./budget";
+import { logEvent } from "./log";
+import {
+  claimPaymentHash,
+  markPaymentHashPaid,
+  releasePaymentHash,
+  describePaidInvoice,
+} from "./paid-invoices";
+import type { AuthResult } from "./auth";
+import { getInvoicePayee } from "./bolt11";
+import { checkDestination } from "./destinations";
+import { checkApproval, type SpendOptions } from "./approvals";
+
+// Spend handlers shared by the HTTP routes and the approval queue, which
+// replays a queued request body under the original token.
+
+// Pay a BOLT11 invoice. Body: { invoice, maxFeeSats, amountSats? }
+// amountSats is required for amountless invoices and rejected otherwise.
+export async function handlePay(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: SpendOptions = {}
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:lightning");
+  if (denied) return denied;
+
+  const { invoice, maxFeeSats, amountSats } = body;
+
+  if (!invoice || typeof invoice !== "string") {
+    return errorResponse("invoice is required", "BAD_REQUEST");
+  }
+  if (maxFeeSats === undefined || typeof maxFeeSats !== "number" || maxFeeSats <= 0) {
+    return errorResponse("maxFeeSats must be a positive number", "BAD_REQUEST");
+  }
+  if (
+    amountSats !== undefined &&
+    (typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0)
+  ) {
+    return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+  }
+
+  // Decode invoice to get the actual payment amount, payment hash and payee
+  let invoiceAmountSats: number;
+  let paymentHash: string;
+  let payee: string;
+  try {
+    const decoded = decode(invoice);
+    const amountSection = decoded.sections.find((s) => s.name === "amount");
+    if (!amountSection || !("value" in amountSection) || !amountSection.value) {
+      if (amountSats === undefined) {
+        return errorResponse(
+          "Invoice has no amount — pass amountSats to pay an amountless invoice",
+          "BAD_REQUEST"
+        );
+      }
+      invoiceAmountSats = amountSats;
+    } else {
+      if (amountSats !== undefined) {
+        return errorResponse(
+          "Invoice already has an amount — amountSats is only allowed for amountless invoices",
+          "BAD_REQUEST"
+        );
+      }
+      // BOLT11 amount is in millisatoshis
+      invoiceAmountSats = Math.ceil(Number(amountSection.value) / 1000);
+    }
+
+    const hashSection = decoded.sections.find((s) => s.name === "payment_hash");
+    if (!hashSection || !("value" in hashSection) || !hashSection.value) {
+      return errorResponse("Invoice has no payment hash", "BAD_REQUEST");
+    }
+    paymentHash = hashSection.value;
+    payee = getInvoicePayee(invoice);
+  } catch {
+    return errorResponse("Failed to decode invoice", "BAD_REQUEST");
+  }
+
+  const destination = checkDestination(auth.destinations, "lightningPayees", payee);
+  if (!destination.allowed) {
+    return errorResponse(destination.reason, "DESTINATION_NOT_ALLOWED", 403);
+  }
+  const tooLarge = checkMaxTx(invoiceAmountSats, auth.maxTxSats);
+  if (tooLarge) return errorResponse(tooLarge, "TRANSACTION_TOO_LARGE", 403);
+
+  const awaitingApproval = await checkApproval("pay", auth, body, invoiceAmountSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  let feeEstimate = maxFeeSats;
+  try {
+    feeEstimate = await wallet.getLightningSendFeeEstimate({
+      encodedInvoice: invoice,
+      amountSats,
+    });
+  } catch {
+    // Fall back to maxFeeSats if estimate fails
+  }
+
+  // Budget includes invoice amount + fees
+  const estimatedTotal = invoiceAmountSats + feeEstimate;
+
+  // Refuse invoices this proxy already paid (or is paying right now)
+  const claim = await claimPaymentHash({
+    paymentHash,
+    source: "pay",
+    amountSats: invoiceAmountSats,
+    invoice,
+  });
+  if (!claim.claimed) {
+    return errorResponse(describePaidInvoice(claim.record), "ALREADY_PAID", 409, claim.record);
+  }
+
+  // Atomically check and reserve budget before payment
+  const reserve = await reserveSpend(estimatedTotal, auth);
+  if (!reserve.allowed) {
+    await releasePaymentHash(paymentHash);
+    return errorResponse(reserve.reason!, reserve.code!, 403);
+  }
+
+  let result;
+  try {
+    result = await wallet.payLightningInvoice({
+      invoice,
+      maxFeeSats,
+      amountSatsToSend: amountSats,
+    });
+  } catch (err) {
+    // Payment failed — release the reserved budget and the payment hash
+    await releaseSpend(estimatedTotal, reserve.reservation!);
+    await releasePaymentHash(paymentHash);
+    await logEvent({
+      action: "error",
+      success: false,
+      invoice: invoice.slice(0, 30),
+      error: err instanceof Error ? err.message : "Payment failed",
+    });
+    throw err;
+  }
+
+  await markPaymentHashPaid(paymentHash, {
+    paymentId: result.id,
+    paymentStatus: result.status,
+  });
+
+  // True up the reservation with the fee actually charged
+  const feeSats = getLightningFeeSats(result);
+  const adjustment =
+    feeSats !== undefined
+      ? await adjustSpend(estimatedTotal, invoiceAmountSats + feeSats, reserve.reservation!)
+      : undefined;
+
+  await logEvent({
+    action: "payment_sent",
+    success: true,
+    amountSats: invoiceAmountSats,
+    invoice: invoice.slice(0, 30),
+    feeSats,
+    reservedSats: estimatedTotal,
+    budgetAdjustmentSats: adjustment?.adjustmentSats,
+  });
+
+  return successResponse(result);
+}
+
+// Send sats to a Spark address. Body: { receiverSparkAddress, amountSats }
+export async function handleTransfer(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: SpendOptions = {}
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:spark");
+  if (denied) return denied;
+
+  const { receiverSparkAddress, amountSats } = body;
+
+  if (!receiverSparkAddress || typeof receiverSparkAddress !== "string") {
+    return errorResponse("receiverSparkAddress is required", "BAD_REQUEST");
+  }
+  if (!amountSats || typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0) {
+    return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+  }
+
+  const destination = checkDestination(auth.destinations, "sparkAddresses", receiverSparkAddress);
+  if (!destination.allowed) {
+    return errorResponse(destination.reason, "DESTINATION_NOT_ALLOWED", 403);
+  }
+  const tooLarge = checkMaxTx(amountSats, auth.maxTxSats);
+  if (tooLarge) return errorResponse(tooLarge, "TRANSACTION_TOO_LARGE", 403);
+
+  const awaitingApproval = await checkApproval("transfer", auth, body, amountSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  // Atomically check and reserve budget before transfer
+  const reserve = await reserveSpend(amountSats, auth);
+  if (!reserve.allowed) {
+    return errorResponse(reserve.reason!, reserve.code!, 403);
+  }
+
+  let transfer;
+  try {
+    transfer = await wallet.transfer({
+      receiverSparkAddress,
+      amountSats,
+    });
+  } catch (err) {
+    // Transfer failed — release the reserved budget
+    await releaseSpend(amountSats, reserve.reservation!);
+    await logEvent({
+      action: "error",
+      success: false,
+      amountSats,
+      error: err instanceof Error ? err.message : "Transfer failed",
+    });
+    throw err;
+  }
+
+  await logEvent({
+    action: "transfer_sent",
+    success: true,
+    amountSats,
+  });
+
+  return successResponse({
+    id: transfer.id,
+    status: transfer.status,
+    totalValue: transfer.totalValue,
+  });
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkRateLimit, getRateLimitClass, parseRateLimits } from "./rate-limit";
+
+// eval is mocked: these tests check the sliding-window script's inputs and
+// how its reply is read
+const redis = vi.hoisted(() => ({ eval: vi.fn() }));
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn(function () {
+    return redis;
+  }),
+}));
+
+beforeEach(() => {
+  redis.eval.mockReset();
+});
+
+describe("parseRateLimits", () => {
+  it("accepts any subset of the per-class fields", () => {
+    expect(parseRateLimits({})).toEqual({ limits: {} });
+    expect(parseRateLimits({ readsPerMinute: 600, paymentsPerMinute: 5 })).toEqual({
+      limits: { readsPerMinute: 600, paymentsPerMinute: 5 },
+    });
+  });
+
+  it.each([
+    [null, "rateLimits must be an object"],
+    [[5], "rateLimits must be an object"],
+    [{ writesPerMinute: 5 }, "rateLimits only accepts readsPerMinute, invoicesPerMinute, paymentsPerMinute"],
+    [{ invoicesPerMinute: 0 }, "rateLimits.invoicesPerMinute must be a positive integer"],
+    [{ paymentsPerMinute: 2.5 }, "rateLimits.paymentsPerMinute must be a positive integer"],
+    [{ readsPerMinute: "100" }, "rateLimits.readsPerMinute must be a positive integer"],
+  ])("rejects %j", (input, error) => {
+    expect(parseRateLimits(input)).toEqual({ error });
+  });
+});
+
+describe("getRateLimitClass", () => {
+  it("classes POSTs by route and everything else as a read", () => {
+    expect(getRateLimitClass("POST", "/api/pay")).toBe("payment");
+    expect(getRateLimitClass("POST", "/api/batch/")).toBe("payment");
+    expect(getRateLimitClass("POST", "/api/invoice/create")).toBe("invoice");
+    expect(getRateLimitClass("POST", "/api/tokens")).toBe("read");
+    expect(getRateLimitClass("GET", "/api/pay")).toBe("read");
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("counts the request against the token's limit for its class", async () => {
+    redis.eval.mockResolvedValue([1, 0]);
+    expect(await checkRateLimit("t1", { paymentsPerMinute: 5 }, "payment")).toEqual({ allowed: true });
+
+    const [, keys, args] = redis.eval.mock.calls[0];
+    expect(keys).toEqual(["spark:rate:t1:payment"]);
+    expect(args.slice(1, 3)).toEqual([60_000, 5]);
+    expect(args[4]).toBe("1");
+  });
+
+  it("falls back to the default limit for the class", async () => {
+    redis.eval.mockResolvedValue([1, 0]);
+    await checkRateLimit("t1", { paymentsPerMinute: 5 }, "read");
+    expect(redis.eval.mock.calls[0][2][2]).toBe(120);
+  });
+
+  it("rounds the wait up to whole seconds", async () => {
+    redis.eval.mockResolvedValue([0, 12_300]);
+    expect(await checkRateLimit("t1", undefined, "invoice")).toEqual({
+      allowed: false,
+      limit: 30,
+      retryAfterSeconds: 13,
+    });
+  });
+
+  it("lets requests through if Redis fails", async () => {
+    redis.eval.mockRejectedValue(new Error("connection refused"));
+    expect(await checkRateLimit("t1", undefined, "payment")).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,163 @@
+import { randomBytes } from "crypto";
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// Sliding-window request limits, checked in verifyAuth before any route runs.
+// Each token gets a separate limit per route class; failed authentication
+// attempts are limited per client IP. If Redis is down the limiter lets
+// requests through rather than locking everyone out.
+
+const RATE_PREFIX = "spark:rate";
+const AUTH_FAILURE_PREFIX = "spark:auth_failures";
+const RATE_WINDOW_MS = 60 * 1000;
+const AUTH_FAILURE_WINDOW_MS = 10 * 60 * 1000;
+const MAX_AUTH_FAILURES = 20; // Per IP per AUTH_FAILURE_WINDOW_MS
+
+export type RateLimitClass = "read" | "invoice" | "payment";
+
+// Per-token overrides, in requests per minute. Unset = env default.
+export interface RateLimits {
+  readsPerMinute?: number;
+  invoicesPerMinute?: number;
+  paymentsPerMinute?: number;
+}
+
+const CLASS_FIELDS: Record<RateLimitClass, keyof RateLimits> = {
+  read: "readsPerMinute",
+  invoice: "invoicesPerMinute",
+  payment: "paymentsPerMinute",
+};
+
+// POST routes that can move funds or create invoices; everything else is a read
+const PAYMENT_ROUTES = [
+  "/api/pay",
+  "/api/pay/spark",
+  "/api/lnurl/pay",
+  "/api/transfer",
+  "/api/batch",
+  "/api/spark-tokens/transfer",
+  "/api/l402",
+  "/api/withdraw",
+  "/api/approvals/approve",
+];
+const INVOICE_ROUTES = ["/api/invoice/create", "/api/invoice/spark"];
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; limit: number; retryAfterSeconds: number };
+
+// Lua script: drop entries older than the window, then add this request
+// unless the window is full. With ARGV[5] = "0" it only counts.
+// KEYS[1] = sorted set of request times
+// ARGV: now (ms), window (ms), limit, member, record (1/0)
+// Returns [1, 0] if allowed, [0, ms until the oldest entry leaves the window] if not
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - window)
+if redis.call("ZCARD", KEYS[1]) >= limit then
+  local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+  return {0, tonumber(oldest[2]) + window - now}
+end
+if ARGV[5] == "1" then
+  redis.call("ZADD", KEYS[1], now, ARGV[4])
+  redis.call("PEXPIRE", KEYS[1], window)
+end
+return {1, 0}
+`;
+
+function getDefaultRateLimits(): Required<RateLimits> {
+  return {
+    readsPerMinute: parseInt(process.env.RATE_LIMIT_READS_PER_MINUTE || "120"),
+    invoicesPerMinute: parseInt(process.env.RATE_LIMIT_INVOICES_PER_MINUTE || "30"),
+    paymentsPerMinute: parseInt(process.env.RATE_LIMIT_PAYMENTS_PER_MINUTE || "20"),
+  };
+}
+
+export function getRateLimitClass(method: string, pathname: string): RateLimitClass {
+  if (method !== "POST") return "read";
+  const path = pathname.replace(/\/$/, "");
+  if (PAYMENT_ROUTES.includes(path)) return "payment";
+  if (INVOICE_ROUTES.includes(path)) return "invoice";
+  return "read";
+}
+
+async function slidingWindow(
+  key: string,
+  windowMs: number,
+  limit: number,
+  record: boolean
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const member = `${now}:${randomBytes(4).toString("hex")}`;
+  try {
+    const [ok, retryMs] = (await getRedis().eval(
+      SLIDING_WINDOW_SCRIPT,
+      [key],
+      [now, windowMs, limit, member, record ? "1" : "0"]
+    )) as number[];
+    if (ok === 1) return { allowed: true };
+    return { allowed: false, limit, retryAfterSeconds: Math.max(1, Math.ceil(retryMs / 1000)) };
+  } catch {
+    return { allowed: true };
+  }
+}
+
+// Count a request against the token's limit for its route class
+export async function checkRateLimit(
+  tokenId: string,
+  limits: RateLimits | undefined,
+  routeClass: RateLimitClass
+): Promise<RateLimitResult> {
+  const field = CLASS_FIELDS[routeClass];
+  const limit = limits?.[field] ?? getDefaultRateLimits()[field];
+  if (!limit || limit <= 0) return { allowed: true };
+  return slidingWindow(`${RATE_PREFIX}:${tokenId}:${routeClass}`, RATE_WINDOW_MS, limit, true);
+}
+
+// Whether this IP has had too many failed attempts to try again yet
+export async function checkAuthFailureLimit(ip: string): Promise<RateLimitResult> {
+  return slidingWindow(`${AUTH_FAILURE_PREFIX}:${ip}`, AUTH_FAILURE_WINDOW_MS, MAX_AUTH_FAILURES, false);
+}
+
+// Awaited by verifyAuth: a serverless function can be frozen as soon as the
+// response is sent, dropping writes still in flight. Never throws.
+export async function recordAuthFailure(ip: string): Promise<void> {
+  const key = `${AUTH_FAILURE_PREFIX}:${ip}`;
+  const now = Date.now();
+  const pipeline = getRedis().pipeline();
+  pipeline.zadd(key, { score: now, member: `${now}:${randomBytes(4).toString("hex")}` });
+  pipeline.pexpire(key, AUTH_FAILURE_WINDOW_MS);
+  await pipeline.exec().catch(() => {});
+}
+
+// Validate rateLimits from an API request body
+export function parseRateLimits(input: unknown): { limits: RateLimits } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "rateLimits must be an object" };
+  }
+  const fields = Object.values(CLASS_FIELDS);
+  const limits: RateLimits = {};
+  for (const [field, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!fields.includes(field as keyof RateLimits)) {
+      return { error: `rateLimits only accepts ${fields.join(", ")}` };
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      return { error: `rateLimits.${field} must be a positive integer` };
+    }
+    limits[field as keyof RateLimits] = value;
+  }
+  return { limits };
+}
@@ -0,0 +1,207 @@
+import {
+  SparkWallet,
+  decodeSparkAddress,
+  encodeSparkAddress,
+  getNetworkFromSparkAddress,
+  type NetworkType,
+  type SparkAddressFormat,
+} from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { successResponse, errorResponse, requireScope } from "./spark";
+import { reserveSpend, releaseSpend, checkMaxTx } from "./budget";
+import { logEvent } from "./log";
+import type { AuthResult } from "./auth";
+import { checkDestination } from "./destinations";
+import { checkApproval, type SpendOptions } from "./approvals";
+
+// Paying Spark invoices (spark1... addresses carrying invoice fields).
+// Only sats invoices are supported; token invoices are rejected.
+
+// InvoiceStatus values from querySparkInvoices
+const INVOICE_STATUS_PENDING = 1;
+const INVOICE_STATUS_FINALIZED = 2;
+
+export interface DecodedSparkInvoice {
+  id: string;
+  receiverIdentityPublicKey: string;
+  receiverSparkAddress: string; // Plain address of the receiver, for destination lists
+  network: NetworkType;
+  amountSats?: number;
+  memo?: string;
+  senderPublicKey?: string;
+  expiresAt?: string;
+}
+
+// Decode and check an invoice against this wallet's network. Expiry and
+// payment status are checked by the caller.
+export function decodeSparkInvoice(
+  invoice: string,
+  network: NetworkType
+): DecodedSparkInvoice | { error: string } {
+  let invoiceNetwork: NetworkType;
+  let decoded;
+  try {
+    invoiceNetwork = getNetworkFromSparkAddress(invoice);
+    if (invoiceNetwork !== network) {
+      return { error: `Invoice is for ${invoiceNetwork}, but this wallet is on ${network}` };
+    }
+    decoded = decodeSparkAddress(invoice, network);
+  } catch {
+    return { error: "Failed to decode Spark invoice" };
+  }
+
+  const fields = decoded.sparkInvoiceFields;
+  if (!fields) {
+    return { error: "This is a Spark address, not an invoice — use /api/transfer" };
+  }
+  if (fields.paymentType?.type === "tokens") {
+    return { error: "Token invoices are not supported, only sats invoices" };
+  }
+
+  return {
+    id: fields.id,
+    receiverIdentityPublicKey: decoded.identityPublicKey,
+    receiverSparkAddress: encodeSparkAddress({ identityPublicKey: decoded.identityPublicKey, network }),
+    network,
+    amountSats: fields.paymentType?.amount,
+    memo: fields.memo,
+    senderPublicKey: fields.senderPublicKey,
+    expiresAt: fields.expiryTime?.toISOString(),
+  };
+}
+
+// Pay a Spark invoice. Body: { invoice, amountSats? }
+// amountSats is required for invoices without an amount and rejected otherwise.
+export async function handleSparkInvoicePay(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: SpendOptions = {}
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:spark");
+  if (denied) return denied;
+
+  const { invoice, amountSats } = body;
+  if (!invoice || typeof invoice !== "string") {
+    return errorResponse("invoice is required", "BAD_REQUEST");
+  }
+  if (
+    amountSats !== undefined &&
+    (typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0)
+  ) {
+    return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+  }
+
+  const network = (process.env.SPARK_NETWORK || "MAINNET") as NetworkType;
+  const decoded = decodeSparkInvoice(invoice, network);
+  if ("error" in decoded) {
+    return errorResponse(decoded.error, "BAD_REQUEST");
+  }
+
+  let payAmountSats: number;
+  if (decoded.amountSats) {
+    if (amountSats !== undefined) {
+      return errorResponse(
+        "Invoice already has an amount — amountSats is only allowed for invoices without one",
+        "BAD_REQUEST"
+      );
+    }
+    payAmountSats = decoded.amountSats;
+  } else {
+    if (amountSats === undefined) {
+      return errorResponse("Invoice has no amount — pass amountSats to pay it", "BAD_REQUEST");
+    }
+    payAmountSats = amountSats;
+  }
+
+  if (decoded.expiresAt && Date.now() > new Date(decoded.expiresAt).getTime()) {
+    return errorResponse(`Invoice expired at ${decoded.expiresAt}`, "INVOICE_EXPIRED");
+  }
+  if (decoded.senderPublicKey && decoded.senderPublicKey !== (await wallet.getIdentityPublicKey())) {
+    return errorResponse("Invoice can only be paid by a different sender", "BAD_REQUEST");
+  }
+
+  const destination = checkDestination(auth.destinations, "sparkAddresses", decoded.receiverSparkAddress);
+  if (!destination.allowed) {
+    return errorResponse(destination.reason, "DESTINATION_NOT_ALLOWED", 403);
+  }
+  const tooLarge = checkMaxTx(payAmountSats, auth.maxTxSats);
+  if (tooLarge) return errorResponse(tooLarge, "TRANSACTION_TOO_LARGE", 403);
+
+  const { invoiceStatuses } = await wallet.querySparkInvoices([invoice]);
+  const status = invoiceStatuses[0]?.status;
+  if (status === INVOICE_STATUS_FINALIZED || status === INVOICE_STATUS_PENDING) {
+    return errorResponse(
+      status === INVOICE_STATUS_FINALIZED
+        ? "This Spark invoice has already been paid"
+        : "A payment for this Spark invoice is already in progress",
+      "ALREADY_PAID",
+      409,
+      { invoiceId: decoded.id }
+    );
+  }
+
+  const awaitingApproval = await checkApproval("spark_invoice", auth, body, payAmountSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  const reserve = await reserveSpend(payAmountSats, auth);
+  if (!reserve.allowed) {
+    return errorResponse(reserve.reason!, reserve.code!, 403);
+  }
+
+  const logInvoice = invoice.slice(0, 30);
+  let result;
+  try {
+    result = await wallet.fulfillSparkInvoice([
+      {
+        invoice: invoice as SparkAddressFormat,
+        amount: decoded.amountSats ? undefined : BigInt(payAmountSats),
+      },
+    ]);
+  } catch (err) {
+    await releaseSpend(payAmountSats, reserve.reservation!);
+    await logEvent({
+      action: "error",
+      success: false,
+      amountSats: payAmountSats,
+      invoice: logInvoice,
+      error: err instanceof Error ? err.message : "Spark invoice payment failed",
+    });
+    throw err;
+  }
+
+  const transfer = result.satsTransactionSuccess[0]?.transferResponse;
+  if (!transfer) {
+    const failure =
+      result.satsTransactionErrors[0]?.error.message ??
+      result.invalidInvoices[0]?.error.message ??
+      "Spark invoice payment failed";
+    await releaseSpend(payAmountSats, reserve.reservation!);
+    await logEvent({
+      action: "error",
+      success: false,
+      amountSats: payAmountSats,
+      invoice: logInvoice,
+      error: failure,
+    });
+    return errorResponse(failure, "WALLET_ERROR", 502);
+  }
+
+  await logEvent({
+    action: "transfer_sent",
+    success: true,
+    amountSats: payAmountSats,
+    invoice: logInvoice,
+    memo: decoded.memo,
+  });
+
+  return successResponse({
+    id: transfer.id,
+    status: transfer.status,
+    totalValue: transfer.totalValue,
+    invoiceId: decoded.id,
+    receiverSparkAddress: decoded.receiverSparkAddress,
+    memo: decoded.memo,
+  });
+}
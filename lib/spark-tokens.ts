@@ -0,0 +1,270 @@
+import { SparkWallet, type Bech32mTokenIdentifier } from "@buildonspark/spark-sdk";
+import { NextResponse } from "next/server";
+import { Redis } from "@upstash/redis";
+import { successResponse, errorResponse, requireScope } from "./spark";
+import { logEvent } from "./log";
+import type { AuthResult } from "./auth";
+import { checkDestination } from "./destinations";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// Spark tokens (BTKN / LRC-20): balances with metadata, and transfers under
+// per-identifier limits. Amounts are integers in the token's base units,
+// passed as strings since they can exceed Number.MAX_SAFE_INTEGER.
+
+const SPEND_PREFIX = "spark:token_spend";
+const SPEND_TTL = 48 * 60 * 60;
+const TOKEN_IDENTIFIER_PATTERN = /^btkn(rt|t|s|l)?1[a-z0-9]+$/;
+const AMOUNT_PATTERN = /^[1-9][0-9]*$/;
+
+// Per-identifier limits on an API token, in base units. Tokens other than
+// admin can only transfer identifiers listed in their sparkTokenLimits.
+export interface SparkTokenLimit {
+  maxTxAmount?: string;
+  dailyAmount?: string;
+}
+
+export type SparkTokenLimits = Record<string, SparkTokenLimit>;
+
+export interface SparkTokenBalance {
+  balance: string;
+  availableToSend: string;
+  formattedBalance: string;
+  ticker: string;
+  name: string;
+  decimals: number;
+}
+
+// Atomically add to today's counter unless it would pass the daily limit.
+// Limits are capped at MAX_SAFE_INTEGER so Lua numbers stay exact.
+// KEYS[1] = daily counter, ARGV[1] = amount, ARGV[2] = daily limit (0 = none), ARGV[3] = TTL
+// Returns [1, newTotal] or [0, currentTotal]
+const RESERVE_SCRIPT = `
+local amount = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local current = tonumber(redis.call("GET", KEYS[1]) or "0")
+if limit > 0 and current + amount > limit then
+  return {0, current}
+end
+local total = redis.call("INCRBY", KEYS[1], amount)
+redis.call("EXPIRE", KEYS[1], tonumber(ARGV[3]))
+return {1, total}
+`;
+
+export function isTokenIdentifier(value: string): boolean {
+  return TOKEN_IDENTIFIER_PATTERN.test(value);
+}
+
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  if (decimals <= 0) return amount.toString();
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Validate sparkTokenLimits from an API request body
+export function parseSparkTokenLimits(
+  input: unknown
+): { limits: SparkTokenLimits } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "sparkTokenLimits must be an object keyed by token identifier" };
+  }
+
+  const limits: SparkTokenLimits = {};
+  for (const [identifier, raw] of Object.entries(input as Record<string, unknown>)) {
+    if (!isTokenIdentifier(identifier)) {
+      return { error: `Invalid token identifier in sparkTokenLimits: ${identifier}` };
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      return { error: `sparkTokenLimits.${identifier} must be an object` };
+    }
+
+    const limit: SparkTokenLimit = {};
+    for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (field !== "maxTxAmount" && field !== "dailyAmount") {
+        return { error: `sparkTokenLimits.${identifier} only accepts maxTxAmount and dailyAmount` };
+      }
+      const amount = typeof value === "number" ? String(value) : value;
+      if (
+        typeof amount !== "string" ||
+        !AMOUNT_PATTERN.test(amount) ||
+        BigInt(amount) > BigInt(Number.MAX_SAFE_INTEGER)
+      ) {
+        return {
+          error: `sparkTokenLimits.${identifier}.${field} must be a positive integer (base units) up to ${Number.MAX_SAFE_INTEGER}`,
+        };
+      }
+      limit[field] = amount;
+    }
+    limits[identifier] = limit;
+  }
+  return { limits };
+}
+
+export async function getSparkTokenBalances(wallet: SparkWallet): Promise<{
+  balance: bigint;
+  tokenBalances: Record<string, SparkTokenBalance>;
+}> {
+  const { balance, tokenBalances } = await wallet.getBalance();
+  const tokens: Record<string, SparkTokenBalance> = {};
+  for (const [identifier, { ownedBalance, availableToSendBalance, tokenMetadata }] of tokenBalances ?? []) {
+    tokens[identifier] = {
+      balance: ownedBalance.toString(),
+      availableToSend: availableToSendBalance.toString(),
+      formattedBalance: formatTokenAmount(ownedBalance, tokenMetadata.decimals),
+      ticker: tokenMetadata.tokenTicker,
+      name: tokenMetadata.tokenName,
+      decimals: tokenMetadata.decimals,
+    };
+  }
+  return { balance, tokenBalances: tokens };
+}
+
+function getDailyKey(tokenId: string, identifier: string): string {
+  return `${SPEND_PREFIX}:${tokenId}:${identifier}:${new Date().toISOString().slice(0, 10)}`;
+}
+
+type TokenReserveResult =
+  | { allowed: true; key?: string }
+  | { allowed: false; reason: string; code: "TRANSACTION_TOO_LARGE" | "BUDGET_EXCEEDED" | "TOKEN_NOT_ALLOWED" };
+
+async function reserveTokenSpend(auth: AuthResult, identifier: string, amount: bigint): Promise<TokenReserveResult> {
+  const limit = auth.sparkTokenLimits?.[identifier];
+  if (!limit) {
+    if (auth.role === "admin") return { allowed: true };
+    return {
+      allowed: false,
+      reason: `This token has no sparkTokenLimits entry for ${identifier}`,
+      code: "TOKEN_NOT_ALLOWED",
+    };
+  }
+
+  if (limit.maxTxAmount !== undefined && amount > BigInt(limit.maxTxAmount)) {
+    return {
+      allowed: false,
+      reason: `Token amount ${amount} exceeds per-transaction limit of ${limit.maxTxAmount}`,
+      code: "TRANSACTION_TOO_LARGE",
+    };
+  }
+  if (limit.dailyAmount === undefined) return { allowed: true };
+
+  const dailyLimit = BigInt(limit.dailyAmount);
+  if (amount > dailyLimit) {
+    return {
+      allowed: false,
+      reason: `Would exceed daily limit for ${identifier}. Requested: ${amount}, Limit: ${dailyLimit}`,
+      code: "BUDGET_EXCEEDED",
+    };
+  }
+
+  const key = getDailyKey(auth.tokenId, identifier);
+  const [ok, current] = (await getRedis().eval(
+    RESERVE_SCRIPT,
+    [key],
+    [amount.toString(), limit.dailyAmount, SPEND_TTL]
+  )) as number[];
+  if (ok !== 1) {
+    return {
+      allowed: false,
+      reason: `Would exceed daily limit for ${identifier}. Spent: ${current}, Requested: ${amount}, Limit: ${dailyLimit}`,
+      code: "BUDGET_EXCEEDED",
+    };
+  }
+  return { allowed: true, key };
+}
+
+// Send a Spark token. Body: { tokenIdentifier, tokenAmount, receiverSparkAddress }
+export async function handleTokenTransfer(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:spark");
+  if (denied) return denied;
+
+  const { tokenIdentifier, receiverSparkAddress } = body;
+  const tokenAmount = typeof body.tokenAmount === "number" ? String(body.tokenAmount) : body.tokenAmount;
+
+  if (!tokenIdentifier || typeof tokenIdentifier !== "string" || !isTokenIdentifier(tokenIdentifier)) {
+    return errorResponse("tokenIdentifier must be a bech32m token identifier (btkn1...)", "BAD_REQUEST");
+  }
+  if (typeof tokenAmount !== "string" || !AMOUNT_PATTERN.test(tokenAmount)) {
+    return errorResponse("tokenAmount must be a positive integer in base units", "BAD_REQUEST");
+  }
+  if (!receiverSparkAddress || typeof receiverSparkAddress !== "string") {
+    return errorResponse("receiverSparkAddress is required", "BAD_REQUEST");
+  }
+
+  const destination = checkDestination(auth.destinations, "sparkAddresses", receiverSparkAddress);
+  if (!destination.allowed) {
+    return errorResponse(destination.reason, "DESTINATION_NOT_ALLOWED", 403);
+  }
+
+  const amount = BigInt(tokenAmount);
+  const { tokenBalances } = await getSparkTokenBalances(wallet);
+  const held = tokenBalances[tokenIdentifier];
+  if (!held) {
+    return errorResponse(`The wallet holds no ${tokenIdentifier}`, "BAD_REQUEST");
+  }
+  if (amount > BigInt(held.availableToSend)) {
+    return errorResponse(
+      `Insufficient ${held.ticker} balance: ${held.availableToSend} available to send`,
+      "INVALID_AMOUNT"
+    );
+  }
+
+  const reserve = await reserveTokenSpend(auth, tokenIdentifier, amount);
+  if (!reserve.allowed) {
+    return errorResponse(reserve.reason, reserve.code, 403);
+  }
+
+  let txid: string;
+  try {
+    txid = await wallet.transferTokens({
+      tokenIdentifier: tokenIdentifier as Bech32mTokenIdentifier,
+      tokenAmount: amount,
+      receiverSparkAddress,
+    });
+  } catch (err) {
+    if (reserve.key) {
+      await getRedis().decrby(reserve.key, Number(amount));
+    }
+    await logEvent({
+      action: "error",
+      success: false,
+      tokenIdentifier,
+      tokenAmount,
+      error: err instanceof Error ? err.message : "Token transfer failed",
+    });
+    throw err;
+  }
+
+  await logEvent({
+    action: "token_transfer_sent",
+    success: true,
+    tokenIdentifier,
+    tokenAmount,
+    txid,
+  });
+
+  return successResponse({
+    txid,
+    tokenIdentifier,
+    tokenAmount,
+    formattedAmount: formatTokenAmount(amount, held.decimals),
+    ticker: held.ticker,
+  });
+}
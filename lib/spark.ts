@@ -1,7 +1,23 @@
 import { SparkWallet } from "@buildonspark/spark-sdk";
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAuth, type AuthResult } from "./auth";
+import {
+  verifyAuth,
+  authFailureResponse,
+  verifyCronSecret,
+  hasScope,
+  getScopeFailure,
+  type AuthResult,
+  type TokenScope,
+} from "./auth";
 import { checkPendingInvoices } from "./log";
+import { processWebhookDeliveries } from "./webhooks";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  hashRequestBody,
+  isValidIdempotencyKey,
+} from "./idempotency";
 import type { ApiResponse, ErrorCode } from "./types";
 
 type NetworkType = "MAINNET" | "TESTNET" | "REGTEST" | "LOCAL";
@@ -9,27 +25,99 @@ type NetworkType = "MAINNET" | "TESTNET" | "REGTEST" | "LOCAL";
 export function errorResponse(
   error: string,
   code: ErrorCode,
-  status: number = 400
+  status: number = 400,
+  details?: unknown
 ): NextResponse<ApiResponse> {
-  return NextResponse.json({ success: false, error, code }, { status });
+  return NextResponse.json({ success: false, error, code, details }, { status });
+}
+
+// 403 naming the scope the token lacks, or null if it has it
+export function requireScope(auth: AuthResult, scope: TokenScope): NextResponse<ApiResponse> | null {
+  if (hasScope(auth, scope)) return null;
+  const failure = getScopeFailure(scope);
+  return errorResponse(failure.error, failure.code, 403, failure.details);
 }
 
 export function successResponse<T>(data: T): NextResponse<ApiResponse<T>> {
   return NextResponse.json({ success: true, data }, { status: 200 });
 }
 
+// Fee actually charged for a Lightning payment, in sats. payLightningInvoice
+// returns a WalletTransfer (no fee) when the invoice was paid over Spark
+// directly. Returns undefined if the fee can't be determined.
+export function getLightningFeeSats(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  payment: any
+): number | undefined {
+  if (!payment || typeof payment !== "object") return undefined;
+  if (!("fee" in payment)) {
+    return "totalValue" in payment ? 0 : undefined;
+  }
+  const fee = payment.fee;
+  if (!fee || typeof fee.originalValue !== "number") return undefined;
+  switch (fee.originalUnit) {
+    case "SATOSHI":
+      return Math.ceil(fee.originalValue);
+    case "MILLISATOSHI":
+      return Math.ceil(fee.originalValue / 1000);
+    default:
+      return undefined;
+  }
+}
+
 type HandlerFn = (
   wallet: InstanceType<typeof SparkWallet>,
   auth: AuthResult
 ) => Promise<NextResponse>;
 
+type WalletFn = (wallet: InstanceType<typeof SparkWallet>) => Promise<NextResponse>;
+
+// Wallet methods that can move funds. Once one has been called, the outcome
+// is kept under the Idempotency-Key even if the request then fails.
+const SPEND_METHODS = new Set<PropertyKey>([
+  "payLightningInvoice",
+  "transfer",
+  "fulfillSparkInvoice",
+  "transferTokens",
+  "withdraw",
+]);
+
+// Wrap the wallet so onSpend runs before any spend method. Methods are bound
+// to the real wallet so its private fields keep working.
+function trackSpendCalls(
+  wallet: InstanceType<typeof SparkWallet>,
+  onSpend: () => void
+): InstanceType<typeof SparkWallet> {
+  return new Proxy(wallet, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop, target);
+      if (typeof value !== "function") return value;
+      if (!SPEND_METHODS.has(prop)) return value.bind(target);
+      return (...args: unknown[]) => {
+        onSpend();
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+export interface WalletOptions {
+  // Honor the Idempotency-Key header (spend routes only)
+  idempotent?: boolean;
+  // Scope the route needs. Shared spend handlers check their own.
+  scope?: TokenScope;
+}
+
 export async function withWallet(
   request: NextRequest,
-  handler: HandlerFn
+  handler: HandlerFn,
+  options: WalletOptions = {}
 ): Promise<NextResponse> {
   const auth = await verifyAuth(request);
-  if (!auth) {
-    return errorResponse("Invalid or missing authorization token", "UNAUTHORIZED", 401);
+  if (!auth) return authFailureResponse(request);
+  if (options.scope) {
+    const denied = requireScope(auth, options.scope);
+    if (denied) return denied;
   }
 
   const mnemonic = process.env.SPARK_MNEMONIC;
@@ -37,6 +125,129 @@ export async function withWallet(
     return errorResponse("Server misconfiguration: mnemonic not set", "INTERNAL_ERROR", 500);
   }
 
+  const idempotencyKey = options.idempotent
+    ? request.headers.get("idempotency-key")
+    : null;
+  if (idempotencyKey === null) {
+    return runWithWallet(mnemonic, (wallet) => handler(wallet, auth));
+  }
+
+  if (!isValidIdempotencyKey(idempotencyKey)) {
+    return errorResponse(
+      "Idempotency-Key must be 1-255 printable ASCII characters",
+      "BAD_REQUEST"
+    );
+  }
+
+  // Clone so the handler can still read the body
+  const bodyHash = hashRequestBody(await request.clone().text());
+  const route = request.nextUrl.pathname;
+  const claim = await claimIdempotencyKey(auth.tokenId, route, idempotencyKey, bodyHash);
+
+  if (!claim.claimed) {
+    const { record } = claim;
+    if (record.bodyHash !== bodyHash) {
+      return errorResponse(
+        "Idempotency-Key was already used with a different request body",
+        "IDEMPOTENCY_KEY_REUSED",
+        422
+      );
+    }
+    if (record.status === "in_flight") {
+      return errorResponse(
+        "A request with this Idempotency-Key is still in progress",
+        "IDEMPOTENCY_IN_PROGRESS",
+        409
+      );
+    }
+    return NextResponse.json(record.response, {
+      status: record.httpStatus,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  let spendAttempted = false;
+  const response = await runWithWallet(mnemonic, (wallet) =>
+    handler(trackSpendCalls(wallet, () => (spendAttempted = true)), auth)
+  );
+
+  try {
+    if (response.status >= 500 && !spendAttempted) {
+      // Failed before any funds moved (e.g. wallet init) — let a retry run
+      await releaseIdempotencyKey(auth.tokenId, route, idempotencyKey);
+    } else {
+      await completeIdempotencyKey(auth.tokenId, route, idempotencyKey, {
+        bodyHash,
+        httpStatus: response.status,
+        response: await response.clone().json(),
+      });
+    }
+  } catch (err) {
+    // The request already ran — never turn a completed payment into an error.
+    // The key stays in_flight until it expires, which still blocks a double spend.
+    console.error("[spark-middleware] failed to record idempotency outcome:", err);
+  }
+
+  return response;
+}
+
+function cronFailure(request: NextRequest): NextResponse<ApiResponse> | null {
+  if (!process.env.CRON_SECRET) {
+    return errorResponse("Server misconfiguration: CRON_SECRET not set", "INTERNAL_ERROR", 500);
+  }
+  if (!verifyCronSecret(request)) {
+    return errorResponse("Invalid or missing cron secret", "UNAUTHORIZED", 401);
+  }
+  return null;
+}
+
+// For scheduled jobs authenticated by CRON_SECRET that don't need the wallet
+export async function withCron(
+  request: NextRequest,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const failure = cronFailure(request);
+  if (failure) return failure;
+  try {
+    return await handler();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("[spark-middleware]", message);
+    return errorResponse(message, "INTERNAL_ERROR", 500);
+  }
+}
+
+// Like withWallet, for scheduled jobs authenticated by CRON_SECRET
+export async function withCronWallet(
+  request: NextRequest,
+  handler: WalletFn
+): Promise<NextResponse> {
+  const failure = cronFailure(request);
+  if (failure) return failure;
+
+  const mnemonic = process.env.SPARK_MNEMONIC;
+  if (!mnemonic) {
+    return errorResponse("Server misconfiguration: mnemonic not set", "INTERNAL_ERROR", 500);
+  }
+
+  return runWithWallet(mnemonic, handler, false);
+}
+
+// Like withWallet, for unauthenticated public endpoints that only receive
+// funds (e.g. the Lightning Address callback)
+export async function withPublicWallet(handler: WalletFn): Promise<NextResponse> {
+  const mnemonic = process.env.SPARK_MNEMONIC;
+  if (!mnemonic) {
+    return errorResponse("Server misconfiguration: mnemonic not set", "INTERNAL_ERROR", 500);
+  }
+  return runWithWallet(mnemonic, handler);
+}
+
+async function runWithWallet(
+  mnemonic: string,
+  handler: WalletFn,
+  lazyChecks: boolean = true
+): Promise<NextResponse> {
   let wallet: InstanceType<typeof SparkWallet> | null = null;
 
   try {
@@ -47,10 +258,13 @@ export async function withWallet(
     });
     wallet = result.wallet;
 
-    const response = await handler(wallet, auth);
+    const response = await handler(wallet);
 
-    // Lazy check for paid/expired invoices — fire-and-forget
-    checkPendingInvoices(wallet).catch(() => {});
+    if (lazyChecks) {
+      // Lazy check for paid/expired invoices — fire-and-forget
+      checkPendingInvoices(wallet).catch(() => {});
+      processWebhookDeliveries().catch(() => {});
+    }
 
     return response;
   } catch (err) {
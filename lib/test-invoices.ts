@@ -0,0 +1,49 @@
+import { createHash, randomBytes } from "crypto";
+import { bech32 } from "@scure/base";
+import { secp256k1 } from "@noble/curves/secp256k1";
+
+// Signed BOLT11 invoices for tests. Not used by the app.
+
+const NODE_KEY = secp256k1.utils.randomPrivateKey();
+
+function toBytes(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const word of words) {
+    acc = (acc << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+  }
+  if (bits > 0) bytes.push((acc << (8 - bits)) & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+function taggedField(type: number, data: Uint8Array): number[] {
+  const words = bech32.toWords(data);
+  return [type, words.length >> 5, words.length & 31, ...words];
+}
+
+// A mainnet invoice for amountMsat (undefined = amountless)
+export function makeInvoice(
+  amountMsat: number | undefined,
+  options: { descriptionHash?: Uint8Array; paymentHash?: string } = {}
+): string {
+  const hrp = amountMsat === undefined ? "lnbc" : `lnbc${amountMsat * 10}p`;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const paymentHash = options.paymentHash ? Buffer.from(options.paymentHash, "hex") : randomBytes(32);
+  const data = [
+    ...Array.from({ length: 7 }, (_, i) => Math.floor(timestamp / 2 ** (5 * (6 - i))) & 31),
+    ...taggedField(1, paymentHash), // p: payment hash
+    ...(options.descriptionHash ? taggedField(23, options.descriptionHash) : []), // h: description hash
+  ];
+  const digest = createHash("sha256")
+    .update(Buffer.concat([Buffer.from(hrp, "utf8"), toBytes(data)]))
+    .digest();
+  const signature = secp256k1.sign(digest, NODE_KEY);
+  const sigBytes = new Uint8Array([...signature.toCompactRawBytes(), signature.recovery]);
+  return bech32.encode(hrp, [...data, ...bech32.toWords(sigBytes)], false);
+}
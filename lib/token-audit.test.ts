@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { diffTokenSettings } from "./token-audit";
+import type { TokenSettings } from "./auth";
+
+const before: TokenSettings = {
+  role: "pay-only",
+  label: "agent",
+  maxTxSats: 1000,
+  destinations: { sparkAddresses: { allow: ["sp1abc"] } },
+};
+
+describe("diffTokenSettings", () => {
+  it("returns nothing for identical settings", () => {
+    expect(diffTokenSettings(before, structuredClone(before))).toEqual({});
+  });
+
+  it("records changed, added and removed fields", () => {
+    const { maxTxSats: _, ...rest } = before;
+    expect(diffTokenSettings(before, { ...rest, label: "bot", dailyBudgetSats: 5000 })).toEqual({
+      label: { from: "agent", to: "bot" },
+      maxTxSats: { from: 1000, to: undefined },
+      dailyBudgetSats: { from: undefined, to: 5000 },
+    });
+  });
+
+  it("compares nested limits by value", () => {
+    const after = { ...before, destinations: { sparkAddresses: { allow: ["sp1abc", "sp1def"] } } };
+    expect(diffTokenSettings(before, after)).toEqual({
+      destinations: { from: before.destinations, to: after.destinations },
+    });
+  });
+});
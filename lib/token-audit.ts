@@ -0,0 +1,74 @@
+import { randomBytes } from "crypto";
+import { Redis } from "@upstash/redis";
+import type { AuthResult, TokenSettings } from "./auth";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// Audit trail of edits to API tokens (PATCH /api/tokens), newest first.
+// Unlike activity logs, entries don't expire.
+
+// updateToken appends entries in the same step as the edit they record
+export const TOKEN_AUDIT_KEY = "spark:token_audit";
+export const MAX_TOKEN_AUDIT_ENTRIES = 5000;
+
+export interface TokenAuditEntry {
+  id: string;
+  tokenId: string; // The token that was edited
+  changes: Record<string, { from: unknown; to: unknown }>; // Missing = unset
+  changedBy: { tokenId: string; label: string }; // The admin token that made the edit
+  changedAt: string;
+}
+
+function parseEntry(raw: unknown): TokenAuditEntry {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as TokenAuditEntry);
+}
+
+// Fields whose value differs, compared as JSON (limits include nested objects)
+export function diffTokenSettings(
+  before: TokenSettings,
+  after: TokenSettings
+): TokenAuditEntry["changes"] {
+  const changes: TokenAuditEntry["changes"] = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    const from = before[field as keyof TokenSettings];
+    const to = after[field as keyof TokenSettings];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+export function newTokenAuditEntry(
+  tokenId: string,
+  changes: TokenAuditEntry["changes"],
+  admin: AuthResult
+): TokenAuditEntry {
+  return {
+    id: randomBytes(8).toString("hex"),
+    tokenId,
+    changes,
+    changedBy: { tokenId: admin.tokenId, label: admin.label },
+    changedAt: new Date().toISOString(),
+  };
+}
+
+// Pass a tokenId to only list edits to that token
+export async function getTokenAudit(tokenId?: string, limit: number = 50): Promise<TokenAuditEntry[]> {
+  const raw = await getRedis().lrange(TOKEN_AUDIT_KEY, 0, MAX_TOKEN_AUDIT_ENTRIES - 1);
+  return raw
+    .map(parseEntry)
+    .filter((entry) => !tokenId || entry.tokenId === tokenId)
+    .slice(0, limit);
+}
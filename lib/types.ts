@@ -1,9 +1,12 @@
 export type ApiResponse<T = unknown> =
   | { success: true; data: T }
-  | { success: false; error: string; code: ErrorCode };
+  | { success: false; error: string; code: ErrorCode; details?: unknown };
 
 export type ErrorCode =
   | "UNAUTHORIZED"
+  | "TOKEN_EXPIRED"
+  | "INSUFFICIENT_SCOPE"
+  | "RATE_LIMITED"
   | "BAD_REQUEST"
   | "BUDGET_EXCEEDED"
   | "TRANSACTION_TOO_LARGE"
@@ -15,4 +18,16 @@ export type ErrorCode =
   | "L402_INVALID_CHALLENGE"
   | "L402_PAYMENT_FAILED"
   | "L402_NO_PREIMAGE"
-  | "L402_RETRY_ERROR";
+  | "L402_RETRY_ERROR"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "ALREADY_PAID"
+  | "INVOICE_EXPIRED"
+  | "DESTINATION_NOT_ALLOWED"
+  | "TOKEN_NOT_ALLOWED"
+  | "APPROVAL_AMOUNT_CHANGED"
+  | "EDIT_CONFLICT"
+  | "FEE_UNKNOWN"
+  | "LNURL_FETCH_ERROR"
+  | "LNURL_INVALID_RESPONSE"
+  | "LNURL_INVOICE_MISMATCH";
@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { Redis } from "@upstash/redis";
+import { bech32 } from "@scure/base";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+// LNURL-withdraw (LUD-03) vouchers: pull-payment links funded from the proxy
+// wallet. Whoever holds the link can withdraw, so the voucher id is a secret.
+
+const VOUCHERS_KEY = "spark:vouchers";
+const USAGE_PREFIX = "spark:voucher_usage"; // Hash { uses, spentSats } per voucher
+const LNURL_MAX_LENGTH = 2000;
+
+export const DEFAULT_VOUCHER_MAX_FEE_SATS = 10;
+
+export interface Voucher {
+  id: string;
+  k1: string;
+  label?: string;
+  totalSats: number; // Cap on the sum of all withdrawals
+  perUseSats: number; // Exact amount of each withdrawal
+  uses: number; // Max number of withdrawals
+  maxFeeSats: number; // Routing fee limit per withdrawal, paid by the wallet
+  createdBy: string; // tokenId whose budget the withdrawals count against
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export interface VoucherUsage {
+  usesClaimed: number;
+  spentSats: number;
+}
+
+// Atomically claim one use of a voucher.
+// KEYS[1] = usage hash
+// ARGV[1] = amount, ARGV[2] = max uses, ARGV[3] = total sats cap
+// Returns 1 if claimed, 0 if no uses left, -1 if the total would be exceeded
+const CLAIM_SCRIPT = `
+local uses = tonumber(redis.call('HGET', KEYS[1], 'uses') or '0')
+local spent = tonumber(redis.call('HGET', KEYS[1], 'spentSats') or '0')
+local amount = tonumber(ARGV[1])
+if uses + 1 > tonumber(ARGV[2]) then
+  return 0
+end
+if spent + amount > tonumber(ARGV[3]) then
+  return -1
+end
+redis.call('HINCRBY', KEYS[1], 'uses', 1)
+redis.call('HINCRBY', KEYS[1], 'spentSats', amount)
+return 1
+`;
+
+function parseVoucher(raw: unknown): Voucher {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as Voucher);
+}
+
+export async function createVoucher(
+  options: Omit<Voucher, "id" | "k1" | "createdAt">
+): Promise<Voucher> {
+  const voucher: Voucher = {
+    ...options,
+    id: randomBytes(16).toString("hex"),
+    k1: randomBytes(32).toString("hex"),
+    createdAt: new Date().toISOString(),
+  };
+  await getRedis().hset(VOUCHERS_KEY, { [voucher.id]: JSON.stringify(voucher) });
+  return voucher;
+}
+
+export async function getVoucher(id: string): Promise<Voucher | null> {
+  const raw = await getRedis().hget(VOUCHERS_KEY, id);
+  return raw ? parseVoucher(raw) : null;
+}
+
+export async function getVoucherUsage(id: string): Promise<VoucherUsage> {
+  const usage = await getRedis().hgetall<Record<string, number | string>>(`${USAGE_PREFIX}:${id}`);
+  return {
+    usesClaimed: Number(usage?.uses ?? 0),
+    spentSats: Number(usage?.spentSats ?? 0),
+  };
+}
+
+export async function listVouchers(): Promise<(Voucher & VoucherUsage)[]> {
+  const all = await getRedis().hgetall(VOUCHERS_KEY);
+  if (!all) return [];
+  const vouchers = Object.values(all).map(parseVoucher);
+  const withUsage = await Promise.all(
+    vouchers.map(async (voucher) => ({ ...voucher, ...(await getVoucherUsage(voucher.id)) }))
+  );
+  return withUsage.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteVoucher(id: string): Promise<boolean> {
+  const redis = getRedis();
+  const removed = await redis.hdel(VOUCHERS_KEY, id);
+  if (removed > 0) {
+    await redis.del(`${USAGE_PREFIX}:${id}`);
+  }
+  return removed > 0;
+}
+
+export function isVoucherExpired(voucher: Voucher): boolean {
+  return !!voucher.expiresAt && Date.now() > new Date(voucher.expiresAt).getTime();
+}
+
+export async function claimVoucherUse(
+  voucher: Voucher
+): Promise<{ claimed: true } | { claimed: false; reason: string }> {
+  const result = (await getRedis().eval(
+    CLAIM_SCRIPT,
+    [`${USAGE_PREFIX}:${voucher.id}`],
+    [voucher.perUseSats, voucher.uses, voucher.totalSats]
+  )) as number;
+
+  if (result === 1) return { claimed: true };
+  return {
+    claimed: false,
+    reason: result === 0 ? "Voucher has no uses left" : "Voucher has no funds left",
+  };
+}
+
+// Give a use back after a withdrawal failed
+export async function releaseVoucherUse(voucher: Voucher): Promise<void> {
+  const key = `${USAGE_PREFIX}:${voucher.id}`;
+  const pipeline = getRedis().pipeline();
+  pipeline.hincrby(key, "uses", -1);
+  pipeline.hincrby(key, "spentSats", -voucher.perUseSats);
+  await pipeline.exec();
+}
+
+// bech32 "lnurl1..." encoding of a URL (LUD-01), uppercase for compact QR codes
+export function encodeLnurl(url: string): string {
+  return bech32.encode("lnurl", bech32.toWords(Buffer.from(url, "utf8")), LNURL_MAX_LENGTH).toUpperCase();
+}
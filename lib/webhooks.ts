@@ -0,0 +1,323 @@
+import { createHmac, randomBytes } from "crypto";
+import { Redis } from "@upstash/redis";
+import type { LogEntry } from "./log";
+
+let _redis: Redis | null = null;
+
+function getRedis(): Redis {
+  if (!_redis) {
+    _redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+  }
+  return _redis;
+}
+
+const WEBHOOKS_KEY = "spark:webhooks";
+const RETRY_QUEUE_KEY = "spark:webhook_retries"; // Sorted set of delivery ids, scored by next attempt time
+const DELIVERY_PREFIX = "spark:webhook_delivery";
+const DELIVERY_LOG_PREFIX = "spark:webhook_log";
+const DELIVERY_TTL = 24 * 60 * 60; // Pending retries are dropped after a day
+const DELIVERY_LOG_TTL = 7 * 24 * 60 * 60;
+const MAX_DELIVERY_LOG_ENTRIES = 100;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30_000; // 30s, 1m, 2m, 4m, 8m
+const MAX_DELIVERIES_PER_RUN = 10;
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_WEBHOOKS = 20;
+
+export const WEBHOOK_EVENTS = [
+  "invoice_paid",
+  "invoice_expired",
+  "payment_sent",
+  "transfer_sent",
+  "withdrawal_sent",
+  "deposit_received",
+  "token_transfer_sent",
+  "batch_sent",
+  "l402_payment",
+  "error",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string; // HMAC-SHA256 signing key, only returned when the webhook is created
+  label?: string;
+  createdAt: string;
+}
+
+export type WebhookInfo = Omit<Webhook, "secret">;
+
+export interface WebhookPayload {
+  id: string; // Delivery id, stable across retries
+  event: WebhookEvent | "test";
+  createdAt: string;
+  data: unknown;
+}
+
+export interface DeliveryAttempt {
+  deliveryId: string;
+  event: WebhookPayload["event"];
+  attempt: number;
+  status: "delivered" | "retrying" | "failed";
+  httpStatus?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: string;
+  nextAttemptAt?: string;
+}
+
+interface PendingDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookPayload["event"];
+  body: string; // Serialized WebhookPayload, signed as-is on every attempt
+  attempt: number; // Attempts made so far
+}
+
+function parseWebhook(raw: unknown): Webhook {
+  return typeof raw === "string" ? JSON.parse(raw) : (raw as Webhook);
+}
+
+function toInfo(webhook: Webhook): WebhookInfo {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { secret, ...info } = webhook;
+  return info;
+}
+
+export async function createWebhook(options: {
+  url: string;
+  events: WebhookEvent[];
+  label?: string;
+}): Promise<Webhook | null> {
+  const redis = getRedis();
+  if ((await redis.hlen(WEBHOOKS_KEY)) >= MAX_WEBHOOKS) return null;
+
+  const webhook: Webhook = {
+    id: randomBytes(8).toString("hex"),
+    url: options.url,
+    events: options.events,
+    secret: `whsec_${randomBytes(24).toString("hex")}`,
+    label: options.label,
+    createdAt: new Date().toISOString(),
+  };
+  await redis.hset(WEBHOOKS_KEY, { [webhook.id]: JSON.stringify(webhook) });
+  return webhook;
+}
+
+async function getWebhook(id: string): Promise<Webhook | null> {
+  const raw = await getRedis().hget(WEBHOOKS_KEY, id);
+  return raw ? parseWebhook(raw) : null;
+}
+
+async function getAllWebhooks(): Promise<Webhook[]> {
+  const all = await getRedis().hgetall(WEBHOOKS_KEY);
+  if (!all) return [];
+  const webhooks: Webhook[] = [];
+  for (const raw of Object.values(all)) {
+    try {
+      webhooks.push(parseWebhook(raw));
+    } catch {
+      // Skip corrupt entries
+    }
+  }
+  return webhooks;
+}
+
+export async function listWebhooks(): Promise<WebhookInfo[]> {
+  const webhooks = await getAllWebhooks();
+  return webhooks
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(toInfo);
+}
+
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const redis = getRedis();
+  const removed = await redis.hdel(WEBHOOKS_KEY, id);
+  if (removed > 0) {
+    await redis.del(`${DELIVERY_LOG_PREFIX}:${id}`);
+  }
+  return removed > 0;
+}
+
+export async function getDeliveryLog(webhookId: string, limit: number = 50): Promise<DeliveryAttempt[]> {
+  const raw = await getRedis().lrange(`${DELIVERY_LOG_PREFIX}:${webhookId}`, 0, limit - 1);
+  return raw.map((entry) =>
+    typeof entry === "string" ? JSON.parse(entry) : (entry as unknown as DeliveryAttempt)
+  );
+}
+
+// Signature header: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>".
+// Receivers should recompute it with the webhook secret and reject stale timestamps.
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function recordAttempt(webhookId: string, attempt: DeliveryAttempt): Promise<void> {
+  const key = `${DELIVERY_LOG_PREFIX}:${webhookId}`;
+  const pipeline = getRedis().pipeline();
+  pipeline.lpush(key, JSON.stringify(attempt));
+  pipeline.ltrim(key, 0, MAX_DELIVERY_LOG_ENTRIES - 1);
+  pipeline.expire(key, DELIVERY_LOG_TTL);
+  await pipeline.exec();
+}
+
+// POST one delivery. Failed attempts are rescheduled with exponential backoff
+// until MAX_ATTEMPTS, unless retry is false.
+async function attemptDelivery(
+  webhook: Webhook,
+  delivery: PendingDelivery,
+  retry: boolean = true
+): Promise<DeliveryAttempt> {
+  const attemptNumber = delivery.attempt + 1;
+  const started = Date.now();
+  let httpStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "sparkbtcbot-proxy-webhooks",
+        "X-Spark-Event": delivery.event,
+        "X-Spark-Delivery": delivery.id,
+        "X-Spark-Signature": signPayload(webhook.secret, delivery.body, Math.floor(started / 1000)),
+      },
+      body: delivery.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    httpStatus = res.status;
+    if (!res.ok) error = `Endpoint returned HTTP ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  const result: DeliveryAttempt = {
+    deliveryId: delivery.id,
+    event: delivery.event,
+    attempt: attemptNumber,
+    status: error ? "failed" : "delivered",
+    httpStatus,
+    error,
+    durationMs: Date.now() - started,
+    timestamp: new Date(started).toISOString(),
+  };
+
+  if (error && retry && attemptNumber < MAX_ATTEMPTS) {
+    const dueAt = Date.now() + RETRY_BASE_MS * 2 ** (attemptNumber - 1);
+    result.status = "retrying";
+    result.nextAttemptAt = new Date(dueAt).toISOString();
+    const redis = getRedis();
+    await redis.set(
+      `${DELIVERY_PREFIX}:${delivery.id}`,
+      JSON.stringify({ ...delivery, attempt: attemptNumber }),
+      { ex: DELIVERY_TTL }
+    );
+    await redis.zadd(RETRY_QUEUE_KEY, { score: dueAt, member: delivery.id });
+  } else if (retry) {
+    await getRedis().del(`${DELIVERY_PREFIX}:${delivery.id}`);
+  }
+
+  await recordAttempt(webhook.id, result);
+  return result;
+}
+
+function newDelivery(webhookId: string, event: WebhookPayload["event"], data: unknown): PendingDelivery {
+  const id = randomBytes(12).toString("hex");
+  const payload: WebhookPayload = { id, event, createdAt: new Date().toISOString(), data };
+  return { id, webhookId, event, body: JSON.stringify(payload), attempt: 0 };
+}
+
+// Called from logEvent. Deliveries are only queued here, so a slow endpoint
+// never delays the request that produced the event; processWebhookDeliveries
+// sends them. Never throws.
+export async function dispatchWebhooks(entry: LogEntry): Promise<void> {
+  const event = entry.action;
+  if (!isWebhookEvent(event)) return;
+
+  try {
+    const webhooks = (await getAllWebhooks()).filter((w) => w.events.includes(event));
+    if (webhooks.length === 0) return;
+
+    const now = Date.now();
+    const pipeline = getRedis().pipeline();
+    for (const webhook of webhooks) {
+      const delivery = newDelivery(webhook.id, event, entry);
+      pipeline.set(`${DELIVERY_PREFIX}:${delivery.id}`, JSON.stringify(delivery), { ex: DELIVERY_TTL });
+      pipeline.zadd(RETRY_QUEUE_KEY, { score: now, member: delivery.id });
+    }
+    await pipeline.exec();
+  } catch (err) {
+    console.error("[webhooks] dispatch failed:", err);
+  }
+}
+
+// Send a one-off "test" event. Not retried.
+export async function sendTestEvent(webhookId: string): Promise<DeliveryAttempt | null> {
+  const webhook = await getWebhook(webhookId);
+  if (!webhook) return null;
+  const delivery = newDelivery(webhook.id, "test", {
+    message: "Test event from sparkbtcbot-proxy",
+    webhookId: webhook.id,
+  });
+  return attemptDelivery(webhook, delivery, false);
+}
+
+// Result of one pass over the delivery queue
+export interface DeliverySummary {
+  attempted: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+// Send queued deliveries that are due: new events and retries whose backoff
+// has elapsed. Runs lazily after wallet requests and from /api/cron/webhooks.
+export async function processWebhookDeliveries(): Promise<DeliverySummary> {
+  const redis = getRedis();
+  const due = (await redis.zrange(RETRY_QUEUE_KEY, 0, Date.now(), {
+    byScore: true,
+    offset: 0,
+    count: MAX_DELIVERIES_PER_RUN,
+  })) as string[];
+
+  // In parallel, so one slow endpoint doesn't hold up the rest
+  const attempts = await Promise.all(
+    due.map(async (deliveryId): Promise<DeliveryAttempt | null> => {
+      // Whoever removes the id from the queue owns this attempt
+      if ((await redis.zrem(RETRY_QUEUE_KEY, deliveryId)) === 0) return null;
+
+      const raw = await redis.get(`${DELIVERY_PREFIX}:${deliveryId}`);
+      if (!raw) return null;
+      const delivery: PendingDelivery =
+        typeof raw === "string" ? JSON.parse(raw) : (raw as PendingDelivery);
+
+      const webhook = await getWebhook(delivery.webhookId);
+      if (!webhook) {
+        await redis.del(`${DELIVERY_PREFIX}:${deliveryId}`);
+        return null;
+      }
+      return attemptDelivery(webhook, delivery);
+    })
+  );
+
+  const summary: DeliverySummary = { attempted: 0, delivered: 0, retrying: 0, failed: 0 };
+  for (const attempt of attempts) {
+    if (!attempt) continue;
+    summary.attempted++;
+    summary[attempt.status]++;
+  }
+  return summary;
+}
@@ -0,0 +1,193 @@
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { ExitSpeed } from "@buildonspark/spark-sdk/types";
+import { NextResponse } from "next/server";
+import { successResponse, errorResponse, requireScope } from "./spark";
+import { reserveSpend, releaseSpend, adjustSpend, checkMaxTx } from "./budget";
+import { logEvent } from "./log";
+import type { AuthResult } from "./auth";
+import { checkDestination } from "./destinations";
+import { checkApproval, type SpendOptions } from "./approvals";
+
+// On-chain withdrawals (cooperative exit). Without `confirm` the handler only
+// returns the fee quote; with it, amount + fees are charged to the token's budget.
+
+const EXIT_SPEEDS: Record<string, ExitSpeed> = {
+  fast: ExitSpeed.FAST,
+  medium: ExitSpeed.MEDIUM,
+  slow: ExitSpeed.SLOW,
+};
+
+const DEFAULT_EXIT_SPEED = "medium";
+
+// Subset of the SDK's CurrencyAmount the fee fields use
+interface Amount {
+  originalValue: number;
+  originalUnit: string;
+}
+
+function amountToSats(amount: Amount | undefined): number {
+  if (!amount) return 0;
+  return amount.originalUnit === "MILLISATOSHI"
+    ? Math.ceil(amount.originalValue / 1000)
+    : Math.ceil(amount.originalValue);
+}
+
+// Service fee + L1 broadcast fee for each speed
+function quoteFees(quote: {
+  userFeeFast: Amount;
+  userFeeMedium: Amount;
+  userFeeSlow: Amount;
+  l1BroadcastFeeFast: Amount;
+  l1BroadcastFeeMedium: Amount;
+  l1BroadcastFeeSlow: Amount;
+}): Record<string, number> {
+  return {
+    fast: amountToSats(quote.userFeeFast) + amountToSats(quote.l1BroadcastFeeFast),
+    medium: amountToSats(quote.userFeeMedium) + amountToSats(quote.l1BroadcastFeeMedium),
+    slow: amountToSats(quote.userFeeSlow) + amountToSats(quote.l1BroadcastFeeSlow),
+  };
+}
+
+// Withdraw to a Bitcoin address.
+// Body: { onchainAddress, amountSats, exitSpeed?: "fast" | "medium" | "slow", maxFeeSats?, confirm? }
+export async function handleWithdraw(
+  wallet: SparkWallet,
+  auth: AuthResult,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any,
+  options: SpendOptions = {}
+): Promise<NextResponse> {
+  const denied = requireScope(auth, "pay:onchain");
+  if (denied) return denied;
+
+  const { onchainAddress, amountSats, maxFeeSats, confirm } = body;
+  const speed = String(body.exitSpeed ?? DEFAULT_EXIT_SPEED).toLowerCase();
+
+  if (!onchainAddress || typeof onchainAddress !== "string") {
+    return errorResponse("onchainAddress is required", "BAD_REQUEST");
+  }
+  if (!amountSats || typeof amountSats !== "number" || !Number.isInteger(amountSats) || amountSats <= 0) {
+    return errorResponse("amountSats must be a positive integer", "BAD_REQUEST");
+  }
+  if (!(speed in EXIT_SPEEDS)) {
+    return errorResponse("exitSpeed must be fast, medium or slow", "BAD_REQUEST");
+  }
+  if (maxFeeSats !== undefined && (typeof maxFeeSats !== "number" || maxFeeSats < 0)) {
+    return errorResponse("maxFeeSats must be a non-negative number", "BAD_REQUEST");
+  }
+
+  const destination = checkDestination(auth.destinations, "bitcoinAddresses", onchainAddress);
+  if (!destination.allowed) {
+    return errorResponse(destination.reason, "DESTINATION_NOT_ALLOWED", 403);
+  }
+
+  const quote = await wallet.getWithdrawalFeeQuote({ amountSats, withdrawalAddress: onchainAddress });
+  if (!quote) {
+    return errorResponse("No withdrawal fee quote available for this amount", "WALLET_ERROR", 502);
+  }
+  const fees = quoteFees(quote);
+  const feeSats = fees[speed];
+
+  if (confirm !== true) {
+    return successResponse({
+      preview: true,
+      onchainAddress,
+      amountSats,
+      exitSpeed: speed,
+      feeSats,
+      totalSats: amountSats + feeSats,
+      feesBySpeed: fees,
+      quoteExpiresAt: quote.expiresAt,
+      message: "Send the same request with confirm: true to withdraw",
+    });
+  }
+
+  if (maxFeeSats !== undefined && feeSats > maxFeeSats) {
+    return errorResponse(
+      `Withdrawal fee of ${feeSats} sats exceeds maxFeeSats of ${maxFeeSats}`,
+      "BAD_REQUEST",
+      400,
+      { feeSats, feesBySpeed: fees }
+    );
+  }
+
+  // Budget includes the withdrawal amount + fees
+  const estimatedTotal = amountSats + feeSats;
+  const tooLarge = checkMaxTx(estimatedTotal, auth.maxTxSats);
+  if (tooLarge) return errorResponse(tooLarge, "TRANSACTION_TOO_LARGE", 403);
+
+  const awaitingApproval = await checkApproval("withdraw", auth, body, amountSats, options);
+  if (awaitingApproval) return awaitingApproval;
+
+  const reserve = await reserveSpend(estimatedTotal, auth);
+  if (!reserve.allowed) {
+    return errorResponse(reserve.reason!, reserve.code!, 403);
+  }
+
+  let result;
+  try {
+    result = await wallet.withdraw({
+      onchainAddress,
+      amountSats,
+      exitSpeed: EXIT_SPEEDS[speed],
+      feeQuoteId: quote.id,
+      feeAmountSats: feeSats,
+      deductFeeFromWithdrawalAmount: false,
+    });
+  } catch (err) {
+    await releaseSpend(estimatedTotal, reserve.reservation!);
+    await logEvent({
+      action: "error",
+      success: false,
+      amountSats,
+      error: err instanceof Error ? err.message : "Withdrawal failed",
+    });
+    throw err;
+  }
+  if (!result) {
+    await releaseSpend(estimatedTotal, reserve.reservation!);
+    return errorResponse("Withdrawal was not created", "WALLET_ERROR", 502);
+  }
+
+  // True up the reservation with the fees on the exit request
+  const chargedFeeSats = amountToSats(result.fee) + amountToSats(result.l1BroadcastFee);
+  const adjustment =
+    chargedFeeSats > 0
+      ? await adjustSpend(estimatedTotal, amountSats + chargedFeeSats, reserve.reservation!)
+      : undefined;
+
+  await logEvent({
+    action: "withdrawal_sent",
+    success: true,
+    amountSats,
+    feeSats: chargedFeeSats || feeSats,
+    reservedSats: estimatedTotal,
+    budgetAdjustmentSats: adjustment?.adjustmentSats,
+    withdrawalId: result.id,
+  });
+
+  return successResponse(formatWithdrawal(result));
+}
+
+export function formatWithdrawal(request: {
+  id: string;
+  status: string;
+  exitSpeed?: string;
+  fee: Amount;
+  l1BroadcastFee: Amount;
+  coopExitTxid: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}) {
+  return {
+    id: request.id,
+    status: request.status,
+    exitSpeed: request.exitSpeed?.toLowerCase(),
+    feeSats: amountToSats(request.fee) + amountToSats(request.l1BroadcastFee),
+    txid: request.coopExitTxid || undefined,
+    createdAt: request.createdAt,
+    updatedAt: request.updatedAt,
+    expiresAt: request.expiresAt,
+  };
+}
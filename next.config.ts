@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["@buildonspark/spark-sdk"],
+  serverExternalPackages: ["@buildonspark/spark-sdk", "ws"],
 };
 
 export default nextConfig;